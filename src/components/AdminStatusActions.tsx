@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { StatusReasonDialog } from "@/components/StatusReasonDialog";
+import {
+  allowedTransitions,
+  requiresReason,
+  transitionLabel,
+  type RequestStatus,
+} from "@/lib/request-status";
+
+interface AdminStatusActionsProps {
+  requestId: string;
+  currentStatus: RequestStatus;
+  onStatusUpdate: () => void;
+}
+
+export const AdminStatusActions = ({ requestId, currentStatus, onStatusUpdate }: AdminStatusActionsProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [reasonFor, setReasonFor] = useState<RequestStatus | null>(null);
+
+  const handleTransition = async (status: RequestStatus, reason?: string) => {
+    setLoading(true);
+    try {
+      // Admins only finish a job for the provider by skipping the
+      // resident's completion code
+      const { data, error } =
+        status === "pending_confirmation"
+          ? await supabase.rpc("skip_completion_code", {
+              _request_id: requestId,
+              _notes: reason ?? "",
+            })
+          : await supabase.rpc("transition_request", {
+              _request_id: requestId,
+              _status: status,
+              _notes: reason,
+            });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) throw new Error(result.message);
+
+      toast({
+        title: "Status Updated",
+        description: `Request is now ${status.replace(/_/g, " ")}`,
+      });
+
+      setReasonFor(null);
+      onStatusUpdate();
+    } catch (error) {
+      console.error("Error updating status:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update status",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const label = (status: RequestStatus) =>
+    status === "pending_confirmation" ? "Skip Completion Code" : transitionLabel(currentStatus, status);
+
+  const needsReason = (status: RequestStatus) =>
+    status === "pending_confirmation" || requiresReason(currentStatus, status);
+
+  // Disputed requests are handled from the dispute queue
+  const transitions = currentStatus === "disputed" ? [] : allowedTransitions("admin", currentStatus);
+
+  if (transitions.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2" disabled={loading}>
+            {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+            Change Status
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {transitions.map((status) => (
+            <DropdownMenuItem
+              key={status}
+              onSelect={() => (needsReason(status) ? setReasonFor(status) : handleTransition(status))}
+            >
+              {label(status)}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <StatusReasonDialog
+        open={reasonFor !== null}
+        title={reasonFor ? label(reasonFor) : ""}
+        description="The reason is recorded in the request's status history."
+        loading={loading}
+        onOpenChange={(open) => !open && setReasonFor(null)}
+        onConfirm={(reason) => reasonFor && handleTransition(reasonFor, reason)}
+      />
+    </>
+  );
+};
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { CandidateTable, type CandidateEvaluation } from "@/components/CandidateTable";
+import { Loader2, SearchCheck } from "lucide-react";
+
+interface Explanation {
+  status: string;
+  wouldOffer: string | null;
+  candidates: CandidateEvaluation[];
+}
+
+interface AssignmentExplanationProps {
+  requestId: string;
+}
+
+export const AssignmentExplanation = ({ requestId }: AssignmentExplanationProps) => {
+  const [explanation, setExplanation] = useState<Explanation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadExplanation = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase.functions.invoke("assign-provider", {
+        body: { requestId, dryRun: true },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || "Failed to explain assignment");
+
+      setExplanation(data as Explanation);
+    } catch (error) {
+      console.error("Error explaining assignment:", error);
+      setError(error instanceof Error ? error.message : "Failed to explain assignment");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && loadExplanation()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <SearchCheck className="h-4 w-4" />
+          Explain Assignment
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Assignment Explanation</DialogTitle>
+          <DialogDescription>
+            Providers in this category near the request, as the matching engine sees them right now.
+            Nothing is offered or changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!loading && explanation && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Request status: <span className="capitalize font-medium">{explanation.status.replace("_", " ")}</span>
+              {explanation.status === "pending" && !explanation.wouldOffer && (
+                <span> • No eligible provider</span>
+              )}
+            </p>
+
+            <CandidateTable
+              candidates={explanation.candidates}
+              chosenProviderId={explanation.wouldOffer}
+              chosenLabel="Would be offered"
+            />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
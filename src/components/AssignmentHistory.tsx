@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { CandidateTable, type CandidateEvaluation } from "@/components/CandidateTable";
+import { History, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface AssignmentHistoryProps {
+  requestId: string;
+}
+
+const outcomeVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  offered: "default",
+  no_candidates: "secondary",
+  conflict: "outline",
+  error: "destructive",
+};
+
+const failureLabels: Record<string, string> = {
+  no_providers_nearby: "No providers nearby",
+  no_eligible_providers: "No eligible providers",
+  request_not_found: "Request not found",
+  request_not_pending: "Request no longer pending",
+  provider_unavailable: "Providers became unavailable",
+  provider_off_shift: "Providers went off shift",
+  provider_at_capacity: "Providers reached capacity",
+  already_offered: "Already offered",
+};
+
+export const AssignmentHistory = ({ requestId }: AssignmentHistoryProps) => {
+  const [attempts, setAttempts] = useState<Tables<"assignment_attempts">[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadAttempts = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("assignment_attempts")
+        .select("*")
+        .eq("request_id", requestId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setAttempts(data || []);
+    } catch (error) {
+      console.error("Error loading assignment attempts:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && loadAttempts()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <History className="h-4 w-4" />
+          Assignment History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Assignment History</DialogTitle>
+          <DialogDescription>Every matching run for this request, newest first.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : attempts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No assignment attempts recorded yet.</p>
+        ) : (
+          <Accordion type="multiple">
+            {attempts.map((attempt) => {
+              const candidates = attempt.candidates as unknown as CandidateEvaluation[];
+              const chosen = candidates.find((c) => c.providerId === attempt.chosen_provider_id);
+
+              return (
+                <AccordionItem key={attempt.id} value={attempt.id}>
+                  <AccordionTrigger className="hover:no-underline">
+                    <div className="flex flex-wrap items-center gap-2 text-left text-sm">
+                      <span className="font-medium">
+                        {format(new Date(attempt.created_at), "MMM d, yyyy 'at' h:mm a")}
+                      </span>
+                      <Badge variant="outline">{attempt.trigger_source}</Badge>
+                      <Badge variant={outcomeVariants[attempt.outcome] ?? "secondary"} className="capitalize">
+                        {attempt.outcome.replace("_", " ")}
+                      </Badge>
+                      <span className="text-muted-foreground font-normal">
+                        {chosen
+                          ? `Offered to ${chosen.providerName}`
+                          : attempt.failure_reason &&
+                            (failureLabels[attempt.failure_reason] ?? attempt.failure_reason)}
+                      </span>
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <CandidateTable
+                      candidates={candidates}
+                      chosenProviderId={attempt.chosen_provider_id}
+                      chosenLabel="Offered"
+                    />
+                  </AccordionContent>
+                </AccordionItem>
+              );
+            })}
+          </Accordion>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
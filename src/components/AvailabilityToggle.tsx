@@ -51,9 +51,8 @@ export const AvailabilityToggle = ({ userId }: AvailabilityToggleProps) => {
       
       // If turning availability ON, check for pending requests
       if (checked) {
-        const { error: assignError } = await supabase.functions.invoke('assign-pending-requests', {
-          body: { userId }
-        });
+        // The function works out the provider from the signed-in user
+        const { error: assignError } = await supabase.functions.invoke('assign-pending-requests');
 
         if (assignError) {
           console.error('Error checking pending requests:', assignError);
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import {
+  cancellationReasons,
+  DEFAULT_CANCELLATION_POLICY,
+  lateCancellationAt,
+  type CancellationPolicy,
+  type CancellationReason,
+} from "@/lib/cancellation";
+import { RequestStatus } from "@/lib/request-status";
+
+interface CancelRequestDialogProps {
+  open: boolean;
+  requestId: string;
+  currentStatus: RequestStatus;
+  assignedAt: string | null;
+  onOpenChange: (open: boolean) => void;
+  onCancelled: () => void;
+}
+
+export const CancelRequestDialog = ({
+  open,
+  requestId,
+  currentStatus,
+  assignedAt,
+  onOpenChange,
+  onCancelled,
+}: CancelRequestDialogProps) => {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<CancellationPolicy>(DEFAULT_CANCELLATION_POLICY);
+  const [reason, setReason] = useState<CancellationReason | "">("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setReason("");
+    setNotes("");
+    supabase
+      .from("app_settings")
+      .select("value")
+      .eq("key", "cancellation_policy")
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) setPolicy({ ...DEFAULT_CANCELLATION_POLICY, ...(data.value as Partial<CancellationPolicy>) });
+      });
+  }, [open]);
+
+  const lateAt = currentStatus === "assigned" ? lateCancellationAt(policy, assignedAt) : null;
+  const isLate = lateAt !== null && lateAt < new Date();
+  const blocked = isLate && !policy.allow_late_cancellation;
+
+  const handleCancel = async () => {
+    if (!reason) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("cancel_request", {
+        _request_id: requestId,
+        _reason: reason,
+        _notes: notes.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) throw new Error(result.message);
+
+      toast({
+        title: "Request Cancelled",
+        description: "Your request has been cancelled",
+      });
+
+      onOpenChange(false);
+      onCancelled();
+    } catch (error) {
+      console.error("Error cancelling request:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel request",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Request</DialogTitle>
+          <DialogDescription>
+            {currentStatus === "assigned"
+              ? policy.notify_provider
+                ? "Your provider will be told the job is cancelled."
+                : "The job will be removed from your provider's schedule."
+              : "Your request will no longer be offered to providers."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {lateAt && (
+          <p className="text-sm text-muted-foreground">
+            {isLate
+              ? blocked
+                ? "The free cancellation window has passed. Please contact support to cancel this job."
+                : "The free cancellation window has passed, so this will be recorded as a late cancellation."
+              : `You can cancel for free until ${format(lateAt, "MMM d 'at' h:mm a")}.`}
+          </p>
+        )}
+
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as CancellationReason)}>
+            {cancellationReasons.map((option) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem value={option.value} id={`cancel-${option.value}`} />
+                <Label htmlFor={`cancel-${option.value}`} className="font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="cancel-notes">Details{reason === "other" ? " *" : " (optional)"}</Label>
+            <Textarea
+              id="cancel-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Keep Request
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleCancel}
+            disabled={saving || blocked || !reason || (reason === "other" && !notes.trim())}
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Cancel Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
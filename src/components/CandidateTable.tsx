@@ -0,0 +1,109 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export type RejectionReason =
+  | "unavailable"
+  | "off_shift"
+  | "previously_offered"
+  | "booked"
+  | "outside_service_area"
+  | "at_capacity";
+
+// Mirrors CandidateEvaluation in supabase/functions/_shared/matching.ts
+export interface CandidateEvaluation {
+  providerId: string;
+  providerName: string;
+  baseName?: string | null;
+  distanceKm: number;
+  serviceRadiusKm: number | null;
+  serviceAreaDistanceKm?: number | null;
+  isAvailable: boolean;
+  isOnShift: boolean;
+  isPreviousProvider?: boolean;
+  activeJobs: number;
+  maxActiveJobs: number;
+  score: number | null;
+  rank: number | null;
+  rejectionReason: RejectionReason | null;
+}
+
+interface CandidateTableProps {
+  candidates: CandidateEvaluation[];
+  chosenProviderId: string | null;
+  chosenLabel: string;
+}
+
+const rejectionLabels: Record<RejectionReason, string> = {
+  unavailable: "Unavailable",
+  off_shift: "Off shift",
+  previously_offered: "Already offered",
+  booked: "Booked at that time",
+  outside_service_area: "Outside service area",
+  at_capacity: "At capacity",
+};
+
+export const CandidateTable = ({ candidates, chosenProviderId, chosenLabel }: CandidateTableProps) => {
+  if (candidates.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No providers in this category have a location within the search radius.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Provider</TableHead>
+          <TableHead>Distance</TableHead>
+          <TableHead>Coverage</TableHead>
+          <TableHead>Open Jobs</TableHead>
+          <TableHead>Score</TableHead>
+          <TableHead>Result</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {candidates.map((candidate) => (
+          <TableRow key={candidate.providerId}>
+            <TableCell className="font-medium">
+              {candidate.providerName}
+              {candidate.isPreviousProvider && (
+                <span className="block text-xs font-normal text-muted-foreground">Did the previous visit</span>
+              )}
+            </TableCell>
+            <TableCell>
+              {candidate.distanceKm.toFixed(2)} km
+              {candidate.baseName && (
+                <span className="block text-xs text-muted-foreground">from {candidate.baseName}</span>
+              )}
+            </TableCell>
+            <TableCell>
+              {candidate.serviceAreaDistanceKm != null ? "Drawn area" : `${candidate.serviceRadiusKm} km`}
+            </TableCell>
+            <TableCell>
+              {candidate.activeJobs}/{candidate.maxActiveJobs}
+            </TableCell>
+            <TableCell>{candidate.score != null ? candidate.score.toFixed(3) : "—"}</TableCell>
+            <TableCell>
+              {candidate.rejectionReason ? (
+                <Badge variant="destructive">{rejectionLabels[candidate.rejectionReason]}</Badge>
+              ) : candidate.providerId === chosenProviderId ? (
+                <Badge>{chosenLabel}</Badge>
+              ) : (
+                <Badge variant="secondary">Eligible #{candidate.rank}</Badge>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
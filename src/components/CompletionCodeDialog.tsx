@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+const CODE_LENGTH = 6;
+
+interface CompletionCodeDialogProps {
+  open: boolean;
+  requestId: string;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: () => void;
+}
+
+export const CompletionCodeDialog = ({ open, requestId, onOpenChange, onCompleted }: CompletionCodeDialogProps) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setCode("");
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      // The code is checked, and wrong attempts counted, in the database
+      const { data, error: rpcError } = await supabase.rpc("submit_completion_code", {
+        _request_id: requestId,
+        _code: code,
+      });
+
+      if (rpcError) throw rpcError;
+
+      const result = data as { success: boolean; message?: string; attempts_remaining?: number };
+      if (!result.success) {
+        setCode("");
+        setError(
+          result.attempts_remaining
+            ? `${result.message}. ${result.attempts_remaining} ${result.attempts_remaining === 1 ? "attempt" : "attempts"} left.`
+            : result.message ?? "Incorrect code"
+        );
+        return;
+      }
+
+      toast({
+        title: "Success",
+        description: "Waiting for the resident to confirm",
+      });
+
+      onOpenChange(false);
+      onCompleted();
+    } catch (error) {
+      console.error("Error submitting completion code:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit completion code",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Enter Completion Code</DialogTitle>
+          <DialogDescription>
+            Ask the resident for the {CODE_LENGTH}-digit code shown with their request.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-2">
+          <InputOTP maxLength={CODE_LENGTH} value={code} onChange={setCode} disabled={saving}>
+            <InputOTPGroup>
+              {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Back
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || code.length !== CODE_LENGTH}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Mark Completed
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Upload, X } from "lucide-react";
+
+interface DisputeDialogProps {
+  open: boolean;
+  requestId: string;
+  onOpenChange: (open: boolean) => void;
+  onDisputed: () => void;
+}
+
+const MAX_PHOTOS = 5;
+
+export const DisputeDialog = ({ open, requestId, onOpenChange, onDisputed }: DisputeDialogProps) => {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setPhotos([]);
+    }
+  }, [open]);
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length + photos.length > MAX_PHOTOS) {
+      toast({
+        variant: "destructive",
+        title: "Too many photos",
+        description: `You can upload a maximum of ${MAX_PHOTOS} photos`,
+      });
+      return;
+    }
+    setPhotos([...photos, ...files]);
+  };
+
+  const uploadPhotos = async (userId: string): Promise<string[]> => {
+    const uploadedUrls: string[] = [];
+
+    for (const [index, photo] of photos.entries()) {
+      const fileExt = photo.name.split(".").pop();
+      const fileName = `${userId}/disputes/${requestId}/${Date.now()}-${index}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from("service-photos")
+        .upload(fileName, photo);
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from("service-photos")
+        .getPublicUrl(fileName);
+
+      uploadedUrls.push(publicUrl);
+    }
+
+    return uploadedUrls;
+  };
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const photoUrls = await uploadPhotos(user.id);
+
+      const { data, error } = await supabase.rpc("dispute_completion", {
+        _request_id: requestId,
+        _reason: reason.trim(),
+        _photos: photoUrls,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) throw new Error(result.message);
+
+      toast({
+        title: "Problem Reported",
+        description: "An administrator will review the job and get back to you",
+      });
+
+      onOpenChange(false);
+      onDisputed();
+    } catch (error) {
+      console.error("Error disputing completion:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to report the problem",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report a Problem</DialogTitle>
+          <DialogDescription>
+            Tell us what wasn't done right. The job stays open while an administrator reviews it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="dispute-reason">What's wrong? *</Label>
+            <Textarea
+              id="dispute-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. The tap is still leaking"
+              rows={4}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Photos (Optional)</Label>
+            {photos.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {photos.map((photo, index) => (
+                  <li key={index} className="flex items-center justify-between rounded-md border px-3 py-1">
+                    <span className="truncate">{photo.name}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {photos.length < MAX_PHOTOS && (
+              <>
+                <Input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={handlePhotoChange}
+                  className="hidden"
+                  id="dispute-photo-upload"
+                />
+                <Label
+                  htmlFor="dispute-photo-upload"
+                  className="flex items-center justify-center gap-2 border-2 border-dashed rounded-md p-4 cursor-pointer hover:bg-accent transition-colors"
+                >
+                  <Upload className="h-5 w-5" />
+                  <span>Upload Photos ({photos.length}/{MAX_PHOTOS})</span>
+                </Label>
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Back
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || !reason.trim()}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Report Problem
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
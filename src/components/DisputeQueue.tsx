@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { RequestStatus } from "@/lib/request-status";
+
+interface OpenDispute {
+  id: string;
+  reason: string;
+  photos: string[];
+  created_at: string;
+  service_requests: {
+    id: string;
+    description: string;
+    service_categories: { name: string } | null;
+  } | null;
+  profiles: { name: string } | null;
+}
+
+const outcomes: { status: RequestStatus; label: string; variant: "default" | "outline" | "destructive" }[] = [
+  { status: "completed", label: "Accept the Work", variant: "default" },
+  { status: "in_progress", label: "Send Back to Provider", variant: "outline" },
+  { status: "cancelled", label: "Cancel the Job", variant: "destructive" },
+];
+
+interface DisputeQueueProps {
+  onResolved: () => void;
+}
+
+export const DisputeQueue = ({ onResolved }: DisputeQueueProps) => {
+  const { toast } = useToast();
+  const [disputes, setDisputes] = useState<OpenDispute[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDisputes();
+  }, []);
+
+  const loadDisputes = async () => {
+    const { data, error } = await supabase
+      .from("request_disputes")
+      .select(`
+        id,
+        reason,
+        photos,
+        created_at,
+        service_requests (id, description, service_categories (name)),
+        profiles!request_disputes_raised_by_fkey (name)
+      `)
+      .eq("status", "open")
+      .order("created_at");
+
+    if (error) {
+      console.error("Error loading disputes:", error);
+    } else {
+      setDisputes((data || []) as OpenDispute[]);
+    }
+  };
+
+  const handleResolve = async (disputeId: string, outcome: RequestStatus) => {
+    setResolving(disputeId);
+    try {
+      const { data, error } = await supabase.rpc("resolve_dispute", {
+        _dispute_id: disputeId,
+        _outcome: outcome,
+        _resolution: resolutions[disputeId]?.trim() ?? "",
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) throw new Error(result.message);
+
+      toast({
+        title: "Dispute Resolved",
+        description: "The resident and provider have been notified",
+      });
+
+      setDisputes((prev) => prev.filter((d) => d.id !== disputeId));
+      onResolved();
+    } catch (error) {
+      console.error("Error resolving dispute:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resolve dispute",
+      });
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Open Disputes</CardTitle>
+        <CardDescription>Oldest first. Total: {disputes.length} disputes</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {disputes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open disputes.</p>
+        ) : (
+          <div className="space-y-4">
+            {disputes.map((dispute) => (
+              <Card key={dispute.id}>
+                <CardContent className="pt-6 space-y-3">
+                  <div>
+                    <h3 className="font-semibold">
+                      {dispute.service_requests?.service_categories?.name}
+                    </h3>
+                    <p className="text-sm text-muted-foreground">
+                      Raised by {dispute.profiles?.name || "Unknown"} on{" "}
+                      {format(new Date(dispute.created_at), "MMM d, yyyy 'at' h:mm a")}
+                    </p>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{dispute.service_requests?.description}</p>
+                  <p className="text-sm">
+                    <span className="font-medium">Problem: </span>
+                    {dispute.reason}
+                  </p>
+
+                  {dispute.photos.length > 0 && (
+                    <div className="grid grid-cols-3 gap-2">
+                      {dispute.photos.map((photo, index) => (
+                        <a key={index} href={photo} target="_blank" rel="noreferrer">
+                          <img
+                            src={photo}
+                            alt={`Dispute photo ${index + 1}`}
+                            className="w-full h-20 object-cover rounded-md"
+                          />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+
+                  <Textarea
+                    placeholder="Resolution note (shared with the resident and provider) *"
+                    value={resolutions[dispute.id] ?? ""}
+                    onChange={(e) => setResolutions({ ...resolutions, [dispute.id]: e.target.value })}
+                    rows={2}
+                  />
+
+                  <div className="flex flex-wrap gap-2">
+                    {outcomes.map((outcome) => (
+                      <Button
+                        key={outcome.status}
+                        size="sm"
+                        variant={outcome.variant}
+                        disabled={resolving === dispute.id || !resolutions[dispute.id]?.trim()}
+                        onClick={() => handleResolve(dispute.id, outcome.status)}
+                      >
+                        {outcome.label}
+                      </Button>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,82 @@
+import { AlertTriangle, Check, Pause } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { RequestStatus } from "@/lib/request-status";
+
+interface JobProgressProps {
+  status: RequestStatus;
+  pauseReason?: string | null;
+}
+
+// A step can also be held up: shown highlighted with its own label and icon
+const steps: {
+  label: string;
+  reachedAt: RequestStatus[];
+  heldUp?: { status: RequestStatus; label: string; icon: typeof Pause };
+}[] = [
+  {
+    label: "Assigned",
+    reachedAt: ["assigned", "in_progress", "paused", "pending_confirmation", "disputed", "completed"],
+  },
+  {
+    label: "Started",
+    reachedAt: ["in_progress", "paused", "pending_confirmation", "disputed", "completed"],
+    heldUp: { status: "paused", label: "Paused", icon: Pause },
+  },
+  { label: "Finished", reachedAt: ["pending_confirmation", "disputed", "completed"] },
+  {
+    label: "Confirmed",
+    reachedAt: ["completed"],
+    heldUp: { status: "disputed", label: "Disputed", icon: AlertTriangle },
+  },
+];
+
+export const JobProgress = ({ status, pauseReason }: JobProgressProps) => {
+  if (!steps[0].reachedAt.includes(status)) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        {steps.map((step, index) => {
+          const reached = step.reachedAt.includes(status);
+          const heldUp = step.heldUp?.status === status ? step.heldUp : null;
+
+          return (
+            <div key={step.label} className="flex items-center gap-2 flex-1 last:flex-none">
+              <div className="flex items-center gap-1.5">
+                <span
+                  className={cn(
+                    "flex h-5 w-5 items-center justify-center rounded-full border text-xs",
+                    heldUp
+                      ? "border-orange-500 bg-orange-500 text-white"
+                      : reached
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "text-muted-foreground"
+                  )}
+                >
+                  {heldUp ? (
+                    <heldUp.icon className="h-3 w-3" />
+                  ) : reached ? (
+                    <Check className="h-3 w-3" />
+                  ) : (
+                    index + 1
+                  )}
+                </span>
+                <span className={cn("text-xs", !reached && !heldUp && "text-muted-foreground")}>
+                  {heldUp ? heldUp.label : step.label}
+                </span>
+              </div>
+              {index < steps.length - 1 && (
+                <div className={cn("h-px flex-1", reached ? "bg-primary" : "bg-border")} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {status === "paused" && pauseReason && (
+        <p className="text-xs text-muted-foreground">Paused: {pauseReason}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { type CandidateEvaluation } from "@/components/CandidateTable";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, UserCog } from "lucide-react";
+
+interface ManualAssignmentProps {
+  requestId: string;
+  status: string;
+  providerId: string | null;
+  onChanged: () => void;
+}
+
+const assignableStatuses = ["pending", "offered", "assigned"];
+
+export const ManualAssignment = ({ requestId, status, providerId, onChanged }: ManualAssignmentProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [candidates, setCandidates] = useState<CandidateEvaluation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [eligibleOnly, setEligibleOnly] = useState(true);
+  const [search, setSearch] = useState("");
+  const [selectedProviderId, setSelectedProviderId] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const loadCandidates = async () => {
+    setLoading(true);
+    try {
+      // A dry run returns every provider in the category near the request,
+      // with the reason the matching engine would skip them
+      const { data, error } = await supabase.functions.invoke("assign-provider", {
+        body: { requestId, dryRun: true },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || "Failed to load providers");
+
+      setCandidates(data.candidates as CandidateEvaluation[]);
+    } catch (error) {
+      console.error("Error loading providers:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load providers",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setSelectedProviderId("");
+      setNotes("");
+      loadCandidates();
+    }
+  };
+
+  const runAction = async (action: "assign" | "unassign") => {
+    setSaving(true);
+    try {
+      const { data, error } =
+        action === "assign"
+          ? await supabase.rpc("admin_assign_request", {
+              _request_id: requestId,
+              _provider_id: selectedProviderId,
+              _notes: notes.trim(),
+            })
+          : await supabase.rpc("admin_unassign_request", {
+              _request_id: requestId,
+              _notes: notes.trim(),
+            });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) throw new Error(result.message);
+
+      toast({
+        title: action === "assign" ? "Provider Assigned" : "Provider Unassigned",
+        description: "The resident and provider have been notified",
+      });
+
+      setOpen(false);
+      onChanged();
+    } catch (error) {
+      console.error("Error updating assignment:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update assignment",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const visibleCandidates = candidates
+    .filter((c) => !eligibleOnly || !c.rejectionReason || c.providerId === providerId)
+    .filter((c) => c.providerName.toLowerCase().includes(search.trim().toLowerCase()))
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+
+  const noteMissing = notes.trim() === "";
+
+  if (!assignableStatuses.includes(status)) {
+    return null;
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <UserCog className="h-4 w-4" />
+          Manual Assign
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Manual Assignment</DialogTitle>
+          <DialogDescription>
+            Assign the request directly to a provider, skipping offers. This overrides availability,
+            shifts and capacity.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <Input
+              placeholder="Search providers"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="sm:max-w-xs"
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="eligible-only"
+                checked={eligibleOnly}
+                onCheckedChange={(checked) => setEligibleOnly(checked === true)}
+              />
+              <Label htmlFor="eligible-only" className="font-normal">
+                Only eligible providers
+              </Label>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : visibleCandidates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No providers match these filters.</p>
+          ) : (
+            <RadioGroup value={selectedProviderId} onValueChange={setSelectedProviderId} className="gap-2">
+              {visibleCandidates.map((candidate) => (
+                <Label
+                  key={candidate.providerId}
+                  htmlFor={`provider-${candidate.providerId}`}
+                  className="flex items-center gap-3 rounded-md border p-3 font-normal cursor-pointer hover:bg-accent"
+                >
+                  <RadioGroupItem
+                    value={candidate.providerId}
+                    id={`provider-${candidate.providerId}`}
+                    disabled={candidate.providerId === providerId && status === "assigned"}
+                  />
+                  <div className="flex-1">
+                    <p className="font-medium">{candidate.providerName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {candidate.distanceKm.toFixed(2)} km • {candidate.activeJobs}/{candidate.maxActiveJobs} open jobs
+                    </p>
+                  </div>
+                  {candidate.providerId === providerId ? (
+                    <Badge>Current</Badge>
+                  ) : (
+                    candidate.rejectionReason && (
+                      <Badge variant="outline" className="capitalize">
+                        {candidate.rejectionReason.replace(/_/g, " ")}
+                      </Badge>
+                    )
+                  )}
+                </Label>
+              ))}
+            </RadioGroup>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="assignment-notes">Note *</Label>
+            <Textarea
+              id="assignment-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Why is this request being assigned manually?"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {providerId && status !== "pending" && (
+            <Button
+              variant="outline"
+              onClick={() => runAction("unassign")}
+              disabled={saving || noteMissing}
+            >
+              Unassign
+            </Button>
+          )}
+          <Button
+            onClick={() => runAction("assign")}
+            disabled={saving || noteMissing || !selectedProviderId}
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {providerId ? "Reassign" : "Assign"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
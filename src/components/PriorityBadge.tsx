@@ -0,0 +1,39 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ArrowDown, ArrowUp, Minus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { RequestPriority } from "@/lib/priority";
+
+const priorityStyles: Record<RequestPriority, { className: string; icon: React.ReactNode }> = {
+  low: {
+    className: "border-transparent bg-muted text-muted-foreground hover:bg-muted",
+    icon: <ArrowDown className="h-3 w-3" />,
+  },
+  normal: {
+    className: "text-foreground",
+    icon: <Minus className="h-3 w-3" />,
+  },
+  high: {
+    className: "border-transparent bg-orange-500 text-white hover:bg-orange-500/80",
+    icon: <ArrowUp className="h-3 w-3" />,
+  },
+  emergency: {
+    className: "border-transparent bg-destructive text-destructive-foreground hover:bg-destructive/80",
+    icon: <AlertTriangle className="h-3 w-3" />,
+  },
+};
+
+interface PriorityBadgeProps {
+  priority: RequestPriority;
+  className?: string;
+}
+
+export const PriorityBadge = ({ priority, className }: PriorityBadgeProps) => {
+  const style = priorityStyles[priority];
+
+  return (
+    <Badge variant="outline" className={cn("gap-1", style.className, className)}>
+      {style.icon}
+      <span className="capitalize">{priority}</span>
+    </Badge>
+  );
+};
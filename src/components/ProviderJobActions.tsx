@@ -1,12 +1,21 @@
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { CheckCircle2, Loader2 } from "lucide-react";
+import { CheckCircle2, Clock, Loader2, PauseCircle, PlayCircle, ThumbsUp, Undo2, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { StatusReasonDialog } from "./StatusReasonDialog";
+import { ReleaseJobDialog } from "./ReleaseJobDialog";
+import { CompletionCodeDialog } from "./CompletionCodeDialog";
+import {
+  allowedTransitions,
+  requiresReason,
+  transitionLabel,
+  type RequestStatus,
+} from "@/lib/request-status";
 
 interface ProviderJobActionsProps {
   requestId: string;
-  currentStatus: string;
+  currentStatus: RequestStatus;
   onStatusUpdate: () => void;
 }
 
@@ -17,8 +26,57 @@ export const ProviderJobActions = ({
 }: ProviderJobActionsProps) => {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
+  const [reasonFor, setReasonFor] = useState<RequestStatus | null>(null);
+  const [releasing, setReleasing] = useState(false);
+  const [enteringCode, setEnteringCode] = useState(false);
 
-  const handleMarkCompleted = async () => {
+  const handleRespondToOffer = async (accept: boolean) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("respond_to_offer", {
+        _request_id: requestId,
+        _accept: accept,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) throw new Error(result.message);
+
+      toast({
+        title: accept ? "Job Accepted" : "Job Declined",
+        description: accept
+          ? "The job has been added to your assigned jobs"
+          : "The job will be offered to the next available provider",
+      });
+
+      onStatusUpdate();
+    } catch (error) {
+      console.error("Error responding to offer:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to respond to offer",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // What the resident is told when the job moves on
+  const residentNotification = (status: RequestStatus, reason?: string) => {
+    if (status === "paused") {
+      return { title: "Work Paused", message: `Work on your request is paused: ${reason}`, type: "warning" };
+    }
+    if (status === "in_progress") {
+      return currentStatus === "paused"
+        ? { title: "Work Resumed", message: "Your service provider has resumed work", type: "info" }
+        : { title: "Work Started", message: "Your service provider has started work", type: "info" };
+    }
+    return null;
+  };
+
+  const handleTransition = async (status: RequestStatus, reason?: string) => {
     setLoading(true);
     try {
       // Get request details to find resident
@@ -30,39 +88,47 @@ export const ProviderJobActions = ({
 
       if (fetchError) throw fetchError;
 
-      const { error } = await supabase
-        .from("service_requests")
-        .update({
-          status: "completed",
-          completed_at: new Date().toISOString(),
-        })
-        .eq("id", requestId);
+      // The database rejects transitions providers aren't allowed to make
+      // and records the reason in the request's status history
+      const { data, error } = await supabase.rpc("transition_request", {
+        _request_id: requestId,
+        _status: status,
+        _notes: reason,
+      });
 
       if (error) throw error;
 
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) throw new Error(result.message);
+
       // Create notification for resident
-      if (request?.resident_id) {
+      const notification = residentNotification(status, reason);
+      if (notification && request?.resident_id) {
         await supabase.from("notifications").insert({
           user_id: request.resident_id,
-          title: "Service Completed",
-          message: "Your service request has been marked as completed",
-          type: "success",
+          ...notification,
           related_request_id: requestId,
         });
       }
 
       toast({
         title: "Success",
-        description: "Job marked as completed",
+        description:
+          status === "paused"
+            ? "Job paused"
+            : currentStatus === "paused"
+              ? "Job resumed"
+              : "Job started",
       });
 
+      setReasonFor(null);
       onStatusUpdate();
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error updating status:", error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: error.message || "Failed to update job status",
+        description: error instanceof Error ? error.message : "Failed to update job status",
       });
     } finally {
       setLoading(false);
@@ -78,24 +144,124 @@ export const ProviderJobActions = ({
     );
   }
 
+  if (currentStatus === "pending_confirmation" || currentStatus === "disputed") {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Clock className="h-4 w-4" />
+        <span>
+          {currentStatus === "disputed"
+            ? "The resident reported a problem. An admin is reviewing it."
+            : "Waiting for the resident to confirm"}
+        </span>
+      </div>
+    );
+  }
+
+  if (currentStatus === "offered") {
+    return (
+      <div className="flex gap-2">
+        <Button
+          onClick={() => handleRespondToOffer(true)}
+          disabled={loading}
+          size="sm"
+          className="gap-2"
+        >
+          {loading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <ThumbsUp className="h-4 w-4" />
+          )}
+          Accept
+        </Button>
+        <Button
+          onClick={() => handleRespondToOffer(false)}
+          disabled={loading}
+          size="sm"
+          variant="outline"
+          className="gap-2"
+        >
+          <XCircle className="h-4 w-4" />
+          Decline
+        </Button>
+      </div>
+    );
+  }
+
+  const transitions = allowedTransitions("provider", currentStatus);
+
+  // Giving the job back goes through release_request, not a status change
+  const canRelease = currentStatus === "assigned";
+
+  if (transitions.length === 0 && !canRelease) {
+    return null;
+  }
+
   return (
-    <Button 
-      onClick={handleMarkCompleted}
-      disabled={loading}
-      size="sm"
-      className="gap-2"
-    >
-      {loading ? (
-        <>
-          <Loader2 className="h-4 w-4 animate-spin" />
-          Updating...
-        </>
-      ) : (
-        <>
-          <CheckCircle2 className="h-4 w-4" />
-          Mark Completed
-        </>
+    <div className="flex flex-wrap gap-2">
+      {transitions.map((status) => (
+        <Button
+          key={status}
+          onClick={() =>
+            // Finishing a job needs the resident's completion code
+            status === "pending_confirmation"
+              ? setEnteringCode(true)
+              : requiresReason(currentStatus, status)
+                ? setReasonFor(status)
+                : handleTransition(status)
+          }
+          disabled={loading}
+          size="sm"
+          variant={status === "paused" ? "outline" : "default"}
+          className="gap-2"
+        >
+          {loading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : status === "in_progress" ? (
+            <PlayCircle className="h-4 w-4" />
+          ) : status === "paused" ? (
+            <PauseCircle className="h-4 w-4" />
+          ) : (
+            <CheckCircle2 className="h-4 w-4" />
+          )}
+          {transitionLabel(currentStatus, status)}
+        </Button>
+      ))}
+
+      {canRelease && (
+        <Button
+          onClick={() => setReleasing(true)}
+          disabled={loading}
+          size="sm"
+          variant="outline"
+          className="gap-2"
+        >
+          <Undo2 className="h-4 w-4" />
+          Unable to take this job
+        </Button>
       )}
-    </Button>
+
+      <ReleaseJobDialog
+        open={releasing}
+        requestId={requestId}
+        onOpenChange={setReleasing}
+        onReleased={onStatusUpdate}
+      />
+
+      <CompletionCodeDialog
+        open={enteringCode}
+        requestId={requestId}
+        onOpenChange={setEnteringCode}
+        onCompleted={onStatusUpdate}
+      />
+
+      <StatusReasonDialog
+        open={reasonFor !== null}
+        title={reasonFor ? transitionLabel(currentStatus, reasonFor) : ""}
+        description="The resident will see this reason."
+        loading={loading}
+        onOpenChange={(open) => !open && setReasonFor(null)}
+        onConfirm={(reason) => reasonFor && handleTransition(reasonFor, reason)}
+      />
+    </div>
   );
 };
@@ -0,0 +1,56 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Trash2 } from "lucide-react";
+import { ServiceBase } from "./ServiceAreaMap";
+
+interface ProviderLocationsEditorProps {
+  value: ServiceBase[];
+  onChange: (value: ServiceBase[]) => void;
+}
+
+export const ProviderLocationsEditor = ({ value, onChange }: ProviderLocationsEditorProps) => {
+  const updateBase = (index: number, changes: Partial<ServiceBase>) => {
+    onChange(value.map((base, i) => (i === index ? { ...base, ...changes } : base)));
+  };
+
+  if (value.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No bases yet. Use Add Base on the map to cover jobs from more than one place.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.map((base, index) => (
+        <div key={base.id ?? index} className="flex items-center gap-2">
+          <Input
+            aria-label="Base name"
+            value={base.name}
+            onChange={(e) => updateBase(index, { name: e.target.value })}
+            placeholder="e.g. Home, Shop"
+          />
+          <Input
+            aria-label="Radius (km)"
+            type="number"
+            step="0.1"
+            min="0.1"
+            className="w-28"
+            value={base.radiusKm}
+            onChange={(e) => updateBase(index, { radiusKm: parseFloat(e.target.value) || 0 })}
+          />
+          <span className="text-sm text-muted-foreground">km</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
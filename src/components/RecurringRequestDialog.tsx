@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { LocationPicker } from "@/components/LocationPicker";
+import { priorityOptions, type RequestPriority } from "@/lib/priority";
+import { recurrencePresets } from "@/lib/recurrence";
+
+interface ServiceCategory {
+  id: string;
+  name: string;
+}
+
+interface RecurringRequestDialogProps {
+  open: boolean;
+  userId: string;
+  onOpenChange: (open: boolean) => void;
+  onCreated: () => void;
+}
+
+const emptyForm = {
+  category_id: "",
+  priority: "normal" as RequestPriority,
+  description: "",
+  location_address: "",
+  location_lat: "",
+  location_lng: "",
+  preset: "3-month",
+  preferred_start_time: "",
+  preferred_end_time: "",
+};
+
+export const RecurringRequestDialog = ({ open, userId, onOpenChange, onCreated }: RecurringRequestDialogProps) => {
+  const { toast } = useToast();
+  const [categories, setCategories] = useState<ServiceCategory[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [firstDueOn, setFirstDueOn] = useState<Date | undefined>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFormData(emptyForm);
+      setFirstDueOn(undefined);
+      loadCategories();
+    }
+  }, [open]);
+
+  const loadCategories = async () => {
+    const { data, error } = await supabase.from("service_categories").select("id, name").order("name");
+
+    if (error) {
+      console.error("Error loading categories:", error);
+    } else {
+      setCategories(data || []);
+    }
+  };
+
+  const hasPreferredTime = formData.preferred_start_time !== "" || formData.preferred_end_time !== "";
+  const preferredTimeValid =
+    !hasPreferredTime ||
+    (formData.preferred_start_time !== "" &&
+      formData.preferred_end_time !== "" &&
+      formData.preferred_end_time > formData.preferred_start_time);
+
+  const canSave =
+    formData.category_id !== "" &&
+    formData.description.trim() !== "" &&
+    formData.location_lat !== "" &&
+    formData.location_lng !== "" &&
+    firstDueOn !== undefined &&
+    preferredTimeValid;
+
+  const handleSave = async () => {
+    const preset = recurrencePresets.find((p) => p.value === formData.preset);
+    if (!canSave || !preset || !firstDueOn) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("recurring_requests").insert({
+        resident_id: userId,
+        category_id: formData.category_id,
+        priority: formData.priority,
+        description: formData.description.trim(),
+        location_address: formData.location_address || null,
+        location_lat: parseFloat(formData.location_lat),
+        location_lng: parseFloat(formData.location_lng),
+        ...preset.rule,
+        next_due_on: format(firstDueOn, "yyyy-MM-dd"),
+        preferred_start_time: formData.preferred_start_time || null,
+        preferred_end_time: formData.preferred_end_time || null,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Recurring Service Added",
+        description: "Each visit is requested automatically a few days before it's due",
+      });
+
+      onOpenChange(false);
+      onCreated();
+    } catch (error) {
+      console.error("Error creating recurring request:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create recurring service",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Recurring Service</DialogTitle>
+          <DialogDescription>
+            For maintenance you need regularly, such as AC servicing or water tank cleaning.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="recurring-category">Service Category *</Label>
+            <Select
+              value={formData.category_id}
+              onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+            >
+              <SelectTrigger id="recurring-category">
+                <SelectValue placeholder="Select a service category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-priority">Urgency *</Label>
+            <Select
+              value={formData.priority}
+              onValueChange={(value) => setFormData({ ...formData, priority: value as RequestPriority })}
+            >
+              <SelectTrigger id="recurring-priority">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {priorityOptions
+                  .filter((option) => option.value !== "emergency")
+                  .map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label} – {option.description}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-description">Description *</Label>
+            <Textarea
+              id="recurring-description"
+              placeholder="e.g. Service both split AC units"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={3}
+            />
+          </div>
+
+          <LocationPicker
+            onLocationSelect={(lat, lng, address) => {
+              setFormData((prev) => ({
+                ...prev,
+                location_lat: lat.toString(),
+                location_lng: lng.toString(),
+                location_address: address || "",
+              }));
+            }}
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-frequency">How Often *</Label>
+            <Select
+              value={formData.preset}
+              onValueChange={(value) => setFormData({ ...formData, preset: value })}
+            >
+              <SelectTrigger id="recurring-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {recurrencePresets.map((preset) => (
+                  <SelectItem key={preset.value} value={preset.value}>
+                    {preset.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="space-y-2">
+              <Label>First Visit *</Label>
+              <Calendar
+                mode="single"
+                selected={firstDueOn}
+                onSelect={setFirstDueOn}
+                disabled={{ before: new Date() }}
+                className="rounded-md border"
+              />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label>Preferred Time (Optional)</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="time"
+                  aria-label="From"
+                  value={formData.preferred_start_time}
+                  onChange={(e) => setFormData({ ...formData, preferred_start_time: e.target.value })}
+                />
+                <Input
+                  type="time"
+                  aria-label="To"
+                  value={formData.preferred_end_time}
+                  onChange={(e) => setFormData({ ...formData, preferred_end_time: e.target.value })}
+                />
+              </div>
+              {!preferredTimeValid && (
+                <p className="text-sm text-destructive">Enter both times, with the end after the start.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !canSave}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add Recurring Service
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Repeat, Trash2 } from "lucide-react";
+import { RecurringRequestDialog } from "./RecurringRequestDialog";
+import { describeRecurrence, type RecurrenceFrequency } from "@/lib/recurrence";
+
+interface RecurringRequest {
+  id: string;
+  description: string;
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  next_due_on: string;
+  preferred_start_time: string | null;
+  preferred_end_time: string | null;
+  is_active: boolean;
+  service_categories: { name: string } | null;
+}
+
+interface RecurringRequestsProps {
+  userId: string;
+}
+
+// "HH:mm:ss" from a TIME column
+const formatTime = (time: string) => format(parseISO(`1970-01-01T${time}`), "h:mm a");
+
+export const RecurringRequests = ({ userId }: RecurringRequestsProps) => {
+  const { toast } = useToast();
+  const [series, setSeries] = useState<RecurringRequest[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  const loadSeries = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("recurring_requests")
+      .select(`
+        id,
+        description,
+        frequency,
+        interval_count,
+        next_due_on,
+        preferred_start_time,
+        preferred_end_time,
+        is_active,
+        service_categories (name)
+      `)
+      .eq("resident_id", userId)
+      .order("created_at");
+
+    if (error) {
+      console.error("Error loading recurring requests:", error);
+    } else {
+      setSeries((data || []) as RecurringRequest[]);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const handleToggle = async (id: string, isActive: boolean) => {
+    const { error } = await supabase.from("recurring_requests").update({ is_active: isActive }).eq("id", id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    } else {
+      setSeries((prev) => prev.map((s) => (s.id === id ? { ...s, is_active: isActive } : s)));
+    }
+  };
+
+  // Requests already created for the series are kept
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from("recurring_requests").delete().eq("id", id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    } else {
+      setSeries((prev) => prev.filter((s) => s.id !== id));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Recurring Services</CardTitle>
+          <CardDescription>
+            Regular maintenance is requested for you ahead of each visit, and goes to the same provider
+            where possible.
+          </CardDescription>
+        </div>
+        <Button size="sm" className="gap-2" onClick={() => setCreating(true)}>
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {series.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You have no recurring services.</p>
+        ) : (
+          <div className="space-y-2">
+            {series.map((s) => (
+              <div key={s.id} className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm">
+                <div className="space-y-1">
+                  <p className="font-medium flex items-center gap-2">
+                    <Repeat className="h-4 w-4" />
+                    {s.service_categories?.name} · {describeRecurrence(s)}
+                  </p>
+                  <p className="text-muted-foreground">{s.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {s.is_active
+                      ? `Next visit: ${format(parseISO(s.next_due_on), "MMM d, yyyy")}`
+                      : "Paused"}
+                    {s.preferred_start_time && s.preferred_end_time &&
+                      ` · ${formatTime(s.preferred_start_time)} – ${formatTime(s.preferred_end_time)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`series-${s.id}`} className="sr-only">
+                    Active
+                  </Label>
+                  <Switch
+                    id={`series-${s.id}`}
+                    checked={s.is_active}
+                    onCheckedChange={(checked) => handleToggle(s.id, checked)}
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(s.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <RecurringRequestDialog
+        open={creating}
+        userId={userId}
+        onOpenChange={setCreating}
+        onCreated={loadSeries}
+      />
+    </Card>
+  );
+};
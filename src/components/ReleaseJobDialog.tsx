@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { releaseReasons, type ReleaseReason } from "@/lib/job-release";
+
+interface ReleaseJobDialogProps {
+  open: boolean;
+  requestId: string;
+  onOpenChange: (open: boolean) => void;
+  onReleased: () => void;
+}
+
+export const ReleaseJobDialog = ({ open, requestId, onOpenChange, onReleased }: ReleaseJobDialogProps) => {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReleaseReason | "">("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setNotes("");
+    }
+  }, [open]);
+
+  const handleRelease = async () => {
+    if (!reason) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("release_request", {
+        _request_id: requestId,
+        _reason: reason,
+        _notes: notes.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) throw new Error(result.message);
+
+      toast({
+        title: "Job Released",
+        description: "The job will be offered to another provider",
+      });
+
+      onOpenChange(false);
+      onReleased();
+    } catch (error) {
+      console.error("Error releasing job:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to release job",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Unable to Take This Job</DialogTitle>
+          <DialogDescription>
+            The resident will be told and the job goes to another provider. Released jobs count
+            toward your reliability.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReleaseReason)}>
+            {releaseReasons.map((option) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem value={option.value} id={`release-${option.value}`} />
+                <Label htmlFor={`release-${option.value}`} className="font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="release-notes">Details{reason === "other" ? " *" : " (optional)"}</Label>
+            <Textarea
+              id="release-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Keep Job
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleRelease}
+            disabled={saving || !reason || (reason === "other" && !notes.trim())}
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Release Job
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,13 @@
+import { Tables } from "@/integrations/supabase/types";
+
+interface ReliabilitySummaryProps {
+  stats: Tables<"provider_reliability">;
+}
+
+export const ReliabilitySummary = ({ stats }: ReliabilitySummaryProps) => (
+  <p className="text-sm text-muted-foreground">
+    Reliability: {stats.jobs_completed} completed • {stats.jobs_released} released
+    {stats.release_rate != null && ` (${Math.round(stats.release_rate * 100)}% of accepted)`} •{" "}
+    {stats.offers_declined} declined • {stats.offers_expired} expired
+  </p>
+);
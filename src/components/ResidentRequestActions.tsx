@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle2, Loader2, Pencil, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { CancelRequestDialog } from "./CancelRequestDialog";
+import { DisputeDialog } from "./DisputeDialog";
+import { allowedTransitions, transitionLabel, type RequestStatus } from "@/lib/request-status";
+
+interface ResidentRequestActionsProps {
+  requestId: string;
+  currentStatus: RequestStatus;
+  assignedAt: string | null;
+  onStatusUpdate: () => void;
+}
+
+export const ResidentRequestActions = ({
+  requestId,
+  currentStatus,
+  assignedAt,
+  onStatusUpdate,
+}: ResidentRequestActionsProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [disputing, setDisputing] = useState(false);
+
+  const handleConfirm = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("confirm_completion", {
+        _request_id: requestId,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) throw new Error(result.message);
+
+      toast({
+        title: "Job Confirmed",
+        description: "Thanks for confirming the job is done",
+      });
+
+      onStatusUpdate();
+    } catch (error) {
+      console.error("Error confirming completion:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to confirm completion",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const transitions = allowedTransitions("resident", currentStatus);
+
+  if (transitions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {transitions.includes("completed") && (
+        <Button onClick={handleConfirm} disabled={loading} size="sm" className="gap-2">
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle2 className="h-4 w-4" />}
+          {transitionLabel(currentStatus, "completed")}
+        </Button>
+      )}
+
+      {transitions.includes("disputed") && (
+        <Button onClick={() => setDisputing(true)} disabled={loading} size="sm" variant="outline" className="gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          {transitionLabel(currentStatus, "disputed")}
+        </Button>
+      )}
+
+      {/* Residents can only change requests nobody has been offered yet */}
+      {currentStatus === "pending" && (
+        <Button onClick={() => navigate(`/requests/${requestId}/edit`)} size="sm" variant="outline" className="gap-2">
+          <Pencil className="h-4 w-4" />
+          Edit Request
+        </Button>
+      )}
+
+      {transitions.includes("cancelled") && (
+        <Button onClick={() => setCancelling(true)} size="sm" variant="outline" className="gap-2">
+          <XCircle className="h-4 w-4" />
+          {transitionLabel(currentStatus, "cancelled")}
+        </Button>
+      )}
+
+      <CancelRequestDialog
+        open={cancelling}
+        requestId={requestId}
+        currentStatus={currentStatus}
+        assignedAt={assignedAt}
+        onOpenChange={setCancelling}
+        onCancelled={onStatusUpdate}
+      />
+
+      <DisputeDialog
+        open={disputing}
+        requestId={requestId}
+        onOpenChange={setDisputing}
+        onDisputed={onStatusUpdate}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { buildWindow, formatWindow, type TimeWindow } from "@/lib/scheduling";
+
+interface ScheduleAppointmentProps {
+  requestId: string;
+  windows: TimeWindow[];
+  scheduled: TimeWindow | null;
+  onScheduled: () => void;
+}
+
+export const ScheduleAppointment = ({ requestId, windows, scheduled, onScheduled }: ScheduleAppointmentProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [day, setDay] = useState<Date | undefined>();
+  const [startTime, setStartTime] = useState("09:00");
+  const [endTime, setEndTime] = useState("10:00");
+  const [saving, setSaving] = useState(false);
+
+  // Start from a proposed window (or the current appointment); the provider
+  // can narrow it down to the slot they'll actually come
+  const pickWindow = (timeWindow: TimeWindow) => {
+    setDay(new Date(timeWindow.starts_at));
+    setStartTime(format(new Date(timeWindow.starts_at), "HH:mm"));
+    setEndTime(format(new Date(timeWindow.ends_at), "HH:mm"));
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      const initial = scheduled ?? windows[0];
+      if (initial) {
+        pickWindow(initial);
+      } else {
+        setDay(undefined);
+      }
+    }
+  };
+
+  const slot = day ? buildWindow(day, startTime, endTime) : null;
+
+  const handleSchedule = async () => {
+    if (!slot) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("schedule_request", {
+        _request_id: requestId,
+        _starts_at: slot.starts_at,
+        _ends_at: slot.ends_at,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; message?: string };
+      if (!result.success) throw new Error(result.message);
+
+      toast({
+        title: "Appointment Confirmed",
+        description: "The resident has been notified",
+      });
+
+      setOpen(false);
+      onScheduled();
+    } catch (error) {
+      console.error("Error scheduling request:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to schedule appointment",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <CalendarClock className="h-4 w-4" />
+          {scheduled ? "Change Time" : "Confirm Time"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Confirm Appointment</DialogTitle>
+          <DialogDescription>
+            {windows.length > 0
+              ? "Choose a slot within one of the times the resident suggested."
+              : "The resident didn't suggest any times. Choose a slot that suits you."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {windows.length > 0 && (
+            <div className="space-y-2">
+              <Label>Resident's Preferred Times</Label>
+              <div className="flex flex-wrap gap-2">
+                {windows.map((timeWindow) => (
+                  <Button
+                    key={`${timeWindow.starts_at}-${timeWindow.ends_at}`}
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => pickWindow(timeWindow)}
+                  >
+                    {formatWindow(timeWindow)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Calendar
+              mode="single"
+              selected={day}
+              onSelect={setDay}
+              defaultMonth={day}
+              disabled={{ before: new Date() }}
+              className="rounded-md border"
+            />
+            <div className="grid grid-cols-2 gap-2 flex-1 content-start">
+              <div className="space-y-2">
+                <Label htmlFor="slot-start">From</Label>
+                <Input
+                  id="slot-start"
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="slot-end">To</Label>
+                <Input
+                  id="slot-end"
+                  type="time"
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+            Back
+          </Button>
+          <Button onClick={handleSchedule} disabled={saving || !slot}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Confirm Appointment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,18 +1,33 @@
 import { useCallback, useEffect, useState, useRef } from "react";
-import { GoogleMap, useJsApiLoader, Marker, Circle, Autocomplete } from "@react-google-maps/api";
+import { GoogleMap, useJsApiLoader, Marker, Circle, Polygon, Polyline, Autocomplete } from "@react-google-maps/api";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Search, AlertCircle, Loader2 } from "lucide-react";
+import { Search, AlertCircle, Loader2, MapPinPlus, PenLine, Trash2 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
+export interface ServiceBase {
+  id?: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
 interface ServiceAreaMapProps {
   lat: number;
   lng: number;
   radiusKm: number;
   onLocationChange?: (lat: number, lng: number, address?: string) => void;
   editable?: boolean;
+  // Drawn service areas; when there are any they replace the radius circle
+  serviceAreas?: google.maps.LatLngLiteral[][];
+  onServiceAreasChange?: (areas: google.maps.LatLngLiteral[][]) => void;
+  // Named bases, each covering its own radius; they replace the circle around
+  // the profile location
+  bases?: ServiceBase[];
+  onBasesChange?: (bases: ServiceBase[]) => void;
 }
 
 const mapContainerStyle = {
@@ -27,6 +42,10 @@ export const ServiceAreaMap = ({
   radiusKm,
   onLocationChange,
   editable = false,
+  serviceAreas = [],
+  onServiceAreasChange,
+  bases = [],
+  onBasesChange,
 }: ServiceAreaMapProps) => {
   const [center, setCenter] = useState({ lat, lng });
   const [markerPosition, setMarkerPosition] = useState({ lat, lng });
@@ -36,6 +55,15 @@ export const ServiceAreaMap = ({
   const [error, setError] = useState<string | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
+  const canEditAreas = editable && !!onServiceAreasChange;
+  const [drawing, setDrawing] = useState(false);
+  const [draftPath, setDraftPath] = useState<google.maps.LatLngLiteral[]>([]);
+  const [selectedArea, setSelectedArea] = useState<number | null>(null);
+  const polygonRefs = useRef<(google.maps.Polygon | null)[]>([]);
+
+  const canEditBases = editable && !!onBasesChange;
+  const [placingBase, setPlacingBase] = useState(false);
+
   const { isLoaded, loadError } = useJsApiLoader({
     id: "google-map-script",
     googleMapsApiKey: import.meta.env.VITE_GOOGLE_MAPS_API_KEY || "",
@@ -145,6 +173,20 @@ export const ServiceAreaMap = ({
 
   const onMapClick = useCallback(
     (e: google.maps.MapMouseEvent) => {
+      if (drawing && e.latLng) {
+        setDraftPath((path) => [...path, e.latLng!.toJSON()]);
+        return;
+      }
+
+      if (placingBase && e.latLng && onBasesChange) {
+        onBasesChange([
+          ...bases,
+          { name: `Base ${bases.length + 1}`, lat: e.latLng.lat(), lng: e.latLng.lng(), radiusKm },
+        ]);
+        setPlacingBase(false);
+        return;
+      }
+
       if (!editable || !e.latLng || !onLocationChange) return;
 
       const newLat = e.latLng.lat();
@@ -162,9 +204,44 @@ export const ServiceAreaMap = ({
         }
       });
     },
-    [editable, onLocationChange]
+    [drawing, placingBase, bases, radiusKm, editable, onLocationChange, onBasesChange]
   );
 
+  const finishDrawing = () => {
+    if (draftPath.length >= 3 && onServiceAreasChange) {
+      onServiceAreasChange([...serviceAreas, draftPath]);
+    }
+    setDrawing(false);
+    setDraftPath([]);
+  };
+
+  const cancelDrawing = () => {
+    setDrawing(false);
+    setDraftPath([]);
+  };
+
+  // Read back an area after its vertices were dragged or the shape was moved
+  const syncArea = (index: number) => {
+    const polygon = polygonRefs.current[index];
+    if (!polygon || !onServiceAreasChange) return;
+
+    const path = polygon.getPath().getArray().map((point) => point.toJSON());
+    onServiceAreasChange(serviceAreas.map((area, i) => (i === index ? path : area)));
+  };
+
+  const moveBase = (index: number, e: google.maps.MapMouseEvent) => {
+    if (!e.latLng || !onBasesChange) return;
+    onBasesChange(
+      bases.map((base, i) => (i === index ? { ...base, lat: e.latLng!.lat(), lng: e.latLng!.lng() } : base))
+    );
+  };
+
+  const deleteSelectedArea = () => {
+    if (selectedArea === null || !onServiceAreasChange) return;
+    onServiceAreasChange(serviceAreas.filter((_, i) => i !== selectedArea));
+    setSelectedArea(null);
+  };
+
   if (!isLoaded) {
     return (
       <Card className="p-4">
@@ -187,6 +264,18 @@ export const ServiceAreaMap = ({
     zIndex: 1,
   };
 
+  const polygonOptions = {
+    strokeColor: "hsl(var(--primary))",
+    strokeOpacity: 0.8,
+    strokeWeight: 2,
+    fillColor: "hsl(var(--primary))",
+    fillOpacity: 0.15,
+    editable: canEditAreas && !drawing,
+    draggable: canEditAreas && !drawing,
+    clickable: canEditAreas && !drawing,
+    zIndex: 2,
+  };
+
   return (
     <div className="space-y-2">
       <GoogleMap
@@ -209,16 +298,116 @@ export const ServiceAreaMap = ({
           draggable={editable}
           onDragEnd={onMapClick}
         />
-        <Circle center={markerPosition} options={circleOptions} />
+        {serviceAreas.length === 0 && bases.length === 0 && (
+          <Circle center={markerPosition} options={circleOptions} />
+        )}
+        {bases.map((base, index) => (
+          <Marker
+            key={`base-${index}`}
+            position={{ lat: base.lat, lng: base.lng }}
+            title={base.name}
+            label={{ text: base.name.charAt(0).toUpperCase() || "B", color: "white" }}
+            draggable={canEditBases}
+            onDragEnd={(e) => moveBase(index, e)}
+          />
+        ))}
+        {serviceAreas.length === 0 &&
+          bases.map((base, index) => (
+            <Circle
+              key={`base-circle-${index}`}
+              center={{ lat: base.lat, lng: base.lng }}
+              options={{ ...circleOptions, radius: base.radiusKm * 1000 }}
+            />
+          ))}
+        {serviceAreas.map((area, index) => (
+          <Polygon
+            key={index}
+            paths={area}
+            options={{ ...polygonOptions, strokeWeight: selectedArea === index ? 4 : 2 }}
+            onLoad={(polygon) => {
+              polygonRefs.current[index] = polygon;
+            }}
+            onUnmount={() => {
+              polygonRefs.current[index] = null;
+            }}
+            onClick={() => setSelectedArea(index)}
+            onMouseUp={() => syncArea(index)}
+            onDragEnd={() => syncArea(index)}
+          />
+        ))}
+        {drawing && draftPath.length > 0 && (
+          <Polyline path={draftPath} options={{ strokeColor: "hsl(var(--primary))", strokeWeight: 2 }} />
+        )}
       </GoogleMap>
-      {editable && (
+      {(canEditAreas || canEditBases) && (
+        <div className="flex flex-wrap gap-2">
+          {canEditBases && !drawing && (
+            <Button
+              type="button"
+              size="sm"
+              variant={placingBase ? "secondary" : "outline"}
+              className="gap-2"
+              onClick={() => setPlacingBase(!placingBase)}
+            >
+              <MapPinPlus className="h-4 w-4" />
+              {placingBase ? "Click the map to place the base" : "Add Base"}
+            </Button>
+          )}
+          {!canEditAreas ? null : drawing ? (
+            <>
+              <Button type="button" size="sm" onClick={finishDrawing} disabled={draftPath.length < 3}>
+                Finish Area ({draftPath.length} points)
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={cancelDrawing}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="gap-2"
+              onClick={() => {
+                setSelectedArea(null);
+                setPlacingBase(false);
+                setDrawing(true);
+              }}
+            >
+              <PenLine className="h-4 w-4" />
+              Draw Service Area
+            </Button>
+          )}
+          {selectedArea !== null && !drawing && (
+            <Button type="button" size="sm" variant="destructive" className="gap-2" onClick={deleteSelectedArea}>
+              <Trash2 className="h-4 w-4" />
+              Delete Selected Area
+            </Button>
+          )}
+        </div>
+      )}
+      {editable && drawing && (
+        <p className="text-sm text-muted-foreground">
+          Click on the map to add the corners of the area, then press Finish Area.
+        </p>
+      )}
+      {editable && !drawing && (
         <p className="text-sm text-muted-foreground">
-          Click on the map to set your location. The circle shows your service area ({radiusKm} km radius).
+          {serviceAreas.length > 0
+            ? "Click on the map to set your location. You cover the shaded areas; drag their corners to adjust them or click one to select it."
+            : bases.length > 0
+              ? "Click on the map to set your location. The circles show the area covered from each of your bases; drag a base to move it."
+              : `Click on the map to set your location. The circle shows your service area (${radiusKm} km radius).`}
         </p>
       )}
       {!editable && (
         <p className="text-sm text-muted-foreground">
-          Service area: {radiusKm} km radius
+          Service area:{" "}
+          {serviceAreas.length > 0
+            ? `${serviceAreas.length} drawn area(s)`
+            : bases.length > 0
+              ? `${bases.length} base(s)`
+              : `${radiusKm} km radius`}
         </p>
       )}
     </div>
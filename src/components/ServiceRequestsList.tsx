@@ -2,18 +2,32 @@ import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Clock, MapPin, CheckCircle2, XCircle, AlertCircle } from "lucide-react";
+import { Clock, MapPin, CheckCircle2, XCircle, AlertCircle, AlertTriangle, PauseCircle, KeyRound, CalendarClock } from "lucide-react";
 import { format } from "date-fns";
 import { ProviderJobActions } from "./ProviderJobActions";
+import { ResidentRequestActions } from "./ResidentRequestActions";
+import { JobProgress } from "./JobProgress";
+import { ScheduleAppointment } from "./ScheduleAppointment";
+import { PriorityBadge } from "./PriorityBadge";
+import { RequestPriority } from "@/lib/priority";
+import { RequestStatus } from "@/lib/request-status";
+import { formatWindow, type TimeWindow } from "@/lib/scheduling";
 
 interface ServiceRequest {
   id: string;
   description: string;
-  status: string;
+  status: RequestStatus;
+  priority: RequestPriority;
   location_address: string | null;
   created_at: string;
   assigned_at: string | null;
+  started_at: string | null;
   completed_at: string | null;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  time_windows?: TimeWindow[];
+  pause_reason?: string | null;
+  completion_code?: string | null;
   photos: string[] | null;
   service_categories: {
     name: string;
@@ -31,13 +45,23 @@ interface ServiceRequestsListProps {
   userId: string;
 }
 
+// Statuses in which the resident may need to hand over the completion code
+const codeStatuses: RequestStatus[] = ["assigned", "in_progress", "paused"];
+
 const getStatusIcon = (status: string) => {
   switch (status) {
     case "pending":
+    case "offered":
       return <Clock className="h-4 w-4" />;
     case "assigned":
     case "in_progress":
       return <AlertCircle className="h-4 w-4" />;
+    case "paused":
+      return <PauseCircle className="h-4 w-4" />;
+    case "pending_confirmation":
+      return <Clock className="h-4 w-4" />;
+    case "disputed":
+      return <AlertTriangle className="h-4 w-4" />;
     case "completed":
       return <CheckCircle2 className="h-4 w-4" />;
     case "cancelled":
@@ -50,10 +74,16 @@ const getStatusIcon = (status: string) => {
 const getStatusVariant = (status: string): "default" | "secondary" | "destructive" | "outline" => {
   switch (status) {
     case "pending":
+    case "offered":
       return "secondary";
     case "assigned":
     case "in_progress":
       return "default";
+    case "paused":
+    case "pending_confirmation":
+      return "secondary";
+    case "disputed":
+      return "destructive";
     case "completed":
       return "outline";
     case "cancelled":
@@ -121,12 +151,46 @@ export const ServiceRequestsList = ({ userRole, userId }: ServiceRequestsListPro
       const { data, error } = await query;
 
       if (error) throw error;
+
+      const timeWindows = new Map<string, TimeWindow[]>();
+      if (data && data.length > 0) {
+        const { data: windows } = await supabase
+          .from("request_time_windows")
+          .select("request_id, starts_at, ends_at")
+          .in("request_id", data.map((request) => request.id))
+          .order("starts_at");
+
+        windows?.forEach(({ request_id, ...timeWindow }) =>
+          timeWindows.set(request_id, [...(timeWindows.get(request_id) ?? []), timeWindow])
+        );
+      }
+
+      // Only residents can read their completion codes
+      const completionCodes = new Map<string, string>();
+      if (userRole === "resident") {
+        const activeIds = (data || [])
+          .filter((request) => codeStatuses.includes(request.status))
+          .map((request) => request.id);
+
+        if (activeIds.length > 0) {
+          const { data: codes } = await supabase
+            .from("request_completion_codes")
+            .select("request_id, code")
+            .in("request_id", activeIds)
+            .is("verified_at", null);
+
+          codes?.forEach((c) => completionCodes.set(c.request_id, c.code));
+        }
+      }
       
       // Fetch provider details separately for requests that have providers
       const requestsWithProviders = await Promise.all(
         (data || []).map(async (request) => {
+          const completionCode = completionCodes.get(request.id) ?? null;
+          const windows = timeWindows.get(request.id) ?? [];
+
           if (!request.provider_id) {
-            return { ...request, provider_profiles: null };
+            return { ...request, time_windows: windows, completion_code: completionCode, provider_profiles: null };
           }
 
           // Get provider profile and user profile
@@ -137,7 +201,7 @@ export const ServiceRequestsList = ({ userRole, userId }: ServiceRequestsListPro
             .single();
 
           if (!providerProfile) {
-            return { ...request, provider_profiles: null };
+            return { ...request, time_windows: windows, completion_code: completionCode, provider_profiles: null };
           }
 
           const { data: profile } = await supabase
@@ -146,8 +210,26 @@ export const ServiceRequestsList = ({ userRole, userId }: ServiceRequestsListPro
             .eq("id", providerProfile.user_id)
             .single();
 
+          // The provider's reason is the note on the latest pause
+          let pauseReason: string | null = null;
+          if (request.status === "paused") {
+            const { data: pause } = await supabase
+              .from("request_status_history")
+              .select("notes")
+              .eq("request_id", request.id)
+              .eq("status", "paused")
+              .order("created_at", { ascending: false })
+              .limit(1)
+              .maybeSingle();
+
+            pauseReason = pause?.notes ?? null;
+          }
+
           return {
             ...request,
+            pause_reason: pauseReason,
+            time_windows: windows,
+            completion_code: completionCode,
             provider_profiles: profile ? { profiles: profile } : null
           };
         })
@@ -205,8 +287,9 @@ export const ServiceRequestsList = ({ userRole, userId }: ServiceRequestsListPro
                   <CardDescription className="flex items-center gap-2">
                     <Badge variant={getStatusVariant(request.status)} className="gap-1">
                       {getStatusIcon(request.status)}
-                      <span className="capitalize">{request.status.replace('_', ' ')}</span>
+                      <span className="capitalize">{request.status.replace(/_/g, ' ')}</span>
                     </Badge>
+                    <PriorityBadge priority={request.priority} />
                   </CardDescription>
                 </div>
               </div>
@@ -236,9 +319,41 @@ export const ServiceRequestsList = ({ userRole, userId }: ServiceRequestsListPro
                 </div>
               )}
 
+              <JobProgress status={request.status} pauseReason={request.pause_reason} />
+
+              {request.scheduled_start && request.scheduled_end ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <CalendarClock className="h-4 w-4" />
+                  <span>
+                    Appointment: {formatWindow({ starts_at: request.scheduled_start, ends_at: request.scheduled_end })}
+                  </span>
+                </div>
+              ) : (
+                request.time_windows &&
+                request.time_windows.length > 0 &&
+                request.status !== "completed" &&
+                request.status !== "cancelled" && (
+                  <div className="text-sm">
+                    <p className="font-medium flex items-center gap-2">
+                      <CalendarClock className="h-4 w-4" />
+                      Preferred Times:
+                    </p>
+                    <ul className="text-muted-foreground ml-6">
+                      {request.time_windows.map((timeWindow) => (
+                        <li key={`${timeWindow.starts_at}-${timeWindow.ends_at}`}>{formatWindow(timeWindow)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+              )}
+
               {request.provider_profiles?.profiles && (
                 <div className="pt-2 border-t">
-                  <p className="text-sm font-medium">Assigned Service Provider:</p>
+                  <p className="text-sm font-medium">
+                    {request.status === "offered"
+                      ? "Awaiting Confirmation From:"
+                      : "Assigned Service Provider:"}
+                  </p>
                   <p className="text-sm text-muted-foreground">
                     {request.provider_profiles.profiles.name}
                     {request.provider_profiles.profiles.phone && (
@@ -248,18 +363,55 @@ export const ServiceRequestsList = ({ userRole, userId }: ServiceRequestsListPro
                 </div>
               )}
 
+              {userRole === "resident" && codeStatuses.includes(request.status) && request.completion_code && (
+                <div className="pt-2 border-t">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <KeyRound className="h-4 w-4" />
+                    Completion Code:
+                    <span className="font-mono tracking-widest">{request.completion_code}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Give this to your provider in person once the work is done. Never share it before.
+                  </p>
+                </div>
+              )}
+
               <div className="text-xs text-muted-foreground pt-2 border-t">
                 <p>Created: {format(new Date(request.created_at), "MMM d, yyyy 'at' h:mm a")}</p>
                 {request.assigned_at && (
                   <p>Assigned: {format(new Date(request.assigned_at), "MMM d, yyyy 'at' h:mm a")}</p>
                 )}
+                {request.started_at && (
+                  <p>Started: {format(new Date(request.started_at), "MMM d, yyyy 'at' h:mm a")}</p>
+                )}
               {request.completed_at && (
                   <p>Completed: {format(new Date(request.completed_at), "MMM d, yyyy 'at' h:mm a")}</p>
                 )}
               </div>
 
+              {userRole === "resident" && (
+                <ResidentRequestActions
+                  requestId={request.id}
+                  currentStatus={request.status}
+                  assignedAt={request.assigned_at}
+                  onStatusUpdate={loadRequests}
+                />
+              )}
+
               {userRole === "provider" && (
-                <div className="pt-3 border-t">
+                <div className="pt-3 border-t space-y-2">
+                  {request.status === "assigned" && (
+                    <ScheduleAppointment
+                      requestId={request.id}
+                      windows={request.time_windows ?? []}
+                      scheduled={
+                        request.scheduled_start && request.scheduled_end
+                          ? { starts_at: request.scheduled_start, ends_at: request.scheduled_end }
+                          : null
+                      }
+                      onScheduled={loadRequests}
+                    />
+                  )}
                   <ProviderJobActions
                     requestId={request.id}
                     currentStatus={request.status}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+interface StatusReasonDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  loading: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string) => void;
+}
+
+export const StatusReasonDialog = ({
+  open,
+  title,
+  description,
+  loading,
+  onOpenChange,
+  onConfirm,
+}: StatusReasonDialogProps) => {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="status-reason">Reason *</Label>
+          <Textarea
+            id="status-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Waiting for a replacement part"
+            rows={3}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+            Back
+          </Button>
+          <Button onClick={() => onConfirm(reason.trim())} disabled={loading || reason.trim() === ""}>
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {title}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
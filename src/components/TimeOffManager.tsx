@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from "react";
+import { DateRange } from "react-day-picker";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2 } from "lucide-react";
+
+interface TimeOffManagerProps {
+  providerProfileId: string;
+}
+
+export const TimeOffManager = ({ providerProfileId }: TimeOffManagerProps) => {
+  const { toast } = useToast();
+  const [timeOff, setTimeOff] = useState<Tables<"provider_time_off">[]>([]);
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadTimeOff = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("provider_time_off")
+      .select("*")
+      .eq("provider_id", providerProfileId)
+      .gte("ends_on", format(new Date(), "yyyy-MM-dd"))
+      .order("starts_on");
+
+    if (error) {
+      console.error("Error loading time off:", error);
+    } else {
+      setTimeOff(data || []);
+    }
+  }, [providerProfileId]);
+
+  useEffect(() => {
+    loadTimeOff();
+  }, [loadTimeOff]);
+
+  const handleAdd = async () => {
+    if (!range?.from) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("provider_time_off").insert({
+        provider_id: providerProfileId,
+        starts_on: format(range.from, "yyyy-MM-dd"),
+        ends_on: format(range.to ?? range.from, "yyyy-MM-dd"),
+        reason: reason || null,
+      });
+
+      if (error) throw error;
+
+      setRange(undefined);
+      setReason("");
+      toast({
+        title: "Time Off Added",
+        description: "You won't be offered jobs on these days",
+      });
+      loadTimeOff();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add time off",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from("provider_time_off").delete().eq("id", id);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    } else {
+      setTimeOff((prev) => prev.filter((entry) => entry.id !== id));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Time Off</CardTitle>
+        <CardDescription>Pick the days you're away. No jobs are offered to you on these days.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <Calendar
+            mode="range"
+            selected={range}
+            onSelect={setRange}
+            disabled={{ before: new Date() }}
+            className="rounded-md border"
+          />
+          <div className="space-y-4 flex-1">
+            <div className="space-y-2">
+              <Label htmlFor="time-off-reason">Reason (optional)</Label>
+              <Input
+                id="time-off-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Holiday"
+              />
+            </div>
+            <Button type="button" onClick={handleAdd} disabled={!range?.from || saving}>
+              {saving ? "Adding..." : "Add Time Off"}
+            </Button>
+          </div>
+        </div>
+
+        {timeOff.length > 0 && (
+          <div className="space-y-2">
+            {timeOff.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+                <div>
+                  <p className="font-medium">
+                    {format(parseISO(entry.starts_on), "MMM d, yyyy")}
+                    {entry.ends_on !== entry.starts_on && ` – ${format(parseISO(entry.ends_on), "MMM d, yyyy")}`}
+                  </p>
+                  {entry.reason && <p className="text-muted-foreground">{entry.reason}</p>}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(entry.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2 } from "lucide-react";
+import { buildWindow, formatWindow, type TimeWindow } from "@/lib/scheduling";
+
+const MAX_WINDOWS = 5;
+
+interface TimeWindowPickerProps {
+  windows: TimeWindow[];
+  onChange: (windows: TimeWindow[]) => void;
+}
+
+export const TimeWindowPicker = ({ windows, onChange }: TimeWindowPickerProps) => {
+  const [day, setDay] = useState<Date | undefined>();
+  const [startTime, setStartTime] = useState("09:00");
+  const [endTime, setEndTime] = useState("12:00");
+
+  const candidate = day ? buildWindow(day, startTime, endTime) : null;
+  const isDuplicate =
+    candidate !== null &&
+    windows.some((w) => w.starts_at === candidate.starts_at && w.ends_at === candidate.ends_at);
+
+  const handleAdd = () => {
+    if (!candidate || isDuplicate) return;
+    onChange([...windows, candidate].sort((a, b) => a.starts_at.localeCompare(b.starts_at)));
+    setDay(undefined);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <Calendar
+          mode="single"
+          selected={day}
+          onSelect={setDay}
+          disabled={{ before: new Date() }}
+          className="rounded-md border"
+        />
+        <div className="space-y-4 flex-1">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="window-start">From</Label>
+              <Input
+                id="window-start"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="window-end">To</Label>
+              <Input
+                id="window-end"
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+              />
+            </div>
+          </div>
+          {day && !candidate && (
+            <p className="text-sm text-destructive">The end time must be after the start time.</p>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleAdd}
+            disabled={!candidate || isDuplicate || windows.length >= MAX_WINDOWS}
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Time ({windows.length}/{MAX_WINDOWS})
+          </Button>
+        </div>
+      </div>
+
+      {windows.length > 0 && (
+        <div className="space-y-2">
+          {windows.map((timeWindow, index) => (
+            <div
+              key={`${timeWindow.starts_at}-${timeWindow.ends_at}`}
+              className="flex items-center justify-between rounded-md border p-3 text-sm"
+            >
+              <span>{formatWindow(timeWindow)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(windows.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { DAY_NAMES, WEEK_ORDER, WorkingDay } from "@/lib/working-hours";
+
+interface WorkingHoursEditorProps {
+  value: WorkingDay[];
+  onChange: (value: WorkingDay[]) => void;
+}
+
+export const WorkingHoursEditor = ({ value, onChange }: WorkingHoursEditorProps) => {
+  const updateDay = (dayOfWeek: number, changes: Partial<WorkingDay>) => {
+    onChange(value.map((day) => (day.dayOfWeek === dayOfWeek ? { ...day, ...changes } : day)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {WEEK_ORDER.map((dayOfWeek) => {
+        const day = value.find((d) => d.dayOfWeek === dayOfWeek);
+        if (!day) return null;
+
+        return (
+          <div key={dayOfWeek} className="flex items-center gap-3">
+            <Switch
+              id={`day-${dayOfWeek}`}
+              checked={day.enabled}
+              onCheckedChange={(checked) => updateDay(dayOfWeek, { enabled: checked })}
+            />
+            <Label htmlFor={`day-${dayOfWeek}`} className="w-24 font-normal cursor-pointer">
+              {DAY_NAMES[dayOfWeek]}
+            </Label>
+            {day.enabled ? (
+              <>
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={day.start}
+                  onChange={(e) => updateDay(dayOfWeek, { start: e.target.value })}
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={day.end}
+                  onChange={(e) => updateDay(dayOfWeek, { end: e.target.value })}
+                />
+              </>
+            ) : (
+              <span className="text-sm text-muted-foreground">Off</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -14,6 +14,165 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          description: string | null
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          description?: string | null
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          description?: string | null
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      assignment_attempts: {
+        Row: {
+          candidates: Json
+          chosen_provider_id: string | null
+          created_at: string
+          failure_reason: string | null
+          id: string
+          outcome: string
+          radius_extension_km: number
+          request_id: string
+          trigger_source: string
+          triggered_by: string | null
+        }
+        Insert: {
+          candidates?: Json
+          chosen_provider_id?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          outcome: string
+          radius_extension_km?: number
+          request_id: string
+          trigger_source: string
+          triggered_by?: string | null
+        }
+        Update: {
+          candidates?: Json
+          chosen_provider_id?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          outcome?: string
+          radius_extension_km?: number
+          request_id?: string
+          trigger_source?: string
+          triggered_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_attempts_chosen_provider_id_fkey"
+            columns: ["chosen_provider_id"]
+            isOneToOne: false
+            referencedRelation: "provider_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_attempts_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_attempts_triggered_by_fkey"
+            columns: ["triggered_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assignment_queues: {
+        Row: {
+          candidate_ids: string[]
+          created_at: string
+          escalated_at: string | null
+          request_id: string
+          updated_at: string
+        }
+        Insert: {
+          candidate_ids?: string[]
+          created_at?: string
+          escalated_at?: string | null
+          request_id: string
+          updated_at?: string
+        }
+        Update: {
+          candidate_ids?: string[]
+          created_at?: string
+          escalated_at?: string | null
+          request_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_queues_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idempotency_keys: {
+        Row: {
+          created_at: string
+          function_name: string
+          key: string
+          request_id: string | null
+          response: Json | null
+          response_status: number | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          function_name: string
+          key: string
+          request_id?: string | null
+          response?: Json | null
+          response_status?: number | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          function_name?: string
+          key?: string
+          request_id?: string | null
+          response?: Json | null
+          response_status?: number | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idempotency_keys_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "idempotency_keys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           created_at: string
@@ -55,6 +214,7 @@ export type Database = {
           address: string | null
           created_at: string
           id: string
+          location: unknown | null
           location_lat: number | null
           location_lng: number | null
           name: string
@@ -65,6 +225,7 @@ export type Database = {
           address?: string | null
           created_at?: string
           id: string
+          location?: never
           location_lat?: number | null
           location_lng?: number | null
           name: string
@@ -75,6 +236,7 @@ export type Database = {
           address?: string | null
           created_at?: string
           id?: string
+          location?: never
           location_lat?: number | null
           location_lng?: number | null
           name?: string
@@ -119,12 +281,59 @@ export type Database = {
           },
         ]
       }
+      provider_locations: {
+        Row: {
+          created_at: string
+          id: string
+          location: unknown | null
+          location_lat: number
+          location_lng: number
+          name: string
+          provider_id: string
+          radius_km: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          location?: never
+          location_lat: number
+          location_lng: number
+          name: string
+          provider_id: string
+          radius_km?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          location?: never
+          location_lat?: number
+          location_lng?: number
+          name?: string
+          provider_id?: string
+          radius_km?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_locations_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "provider_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       provider_profiles: {
         Row: {
           created_at: string
           id: string
           is_available: boolean | null
+          max_active_jobs: number
+          rating: number | null
           service_area_radius_km: number | null
+          timezone: string
           updated_at: string
           user_id: string
         }
@@ -132,7 +341,10 @@ export type Database = {
           created_at?: string
           id?: string
           is_available?: boolean | null
+          max_active_jobs?: number
+          rating?: number | null
           service_area_radius_km?: number | null
+          timezone?: string
           updated_at?: string
           user_id: string
         }
@@ -140,12 +352,355 @@ export type Database = {
           created_at?: string
           id?: string
           is_available?: boolean | null
+          max_active_jobs?: number
+          rating?: number | null
           service_area_radius_km?: number | null
+          timezone?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      provider_service_areas: {
+        Row: {
+          area: unknown | null
+          created_at: string
+          id: string
+          path: Json
+          provider_id: string
+        }
+        Insert: {
+          area?: never
+          created_at?: string
+          id?: string
+          path: Json
+          provider_id: string
+        }
+        Update: {
+          area?: never
+          created_at?: string
+          id?: string
+          path?: Json
+          provider_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_service_areas_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "provider_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      provider_time_off: {
+        Row: {
+          created_at: string
+          ends_on: string
+          id: string
+          provider_id: string
+          reason: string | null
+          starts_on: string
+        }
+        Insert: {
+          created_at?: string
+          ends_on: string
+          id?: string
+          provider_id: string
+          reason?: string | null
+          starts_on: string
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string
+          id?: string
+          provider_id?: string
+          reason?: string | null
+          starts_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_time_off_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "provider_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      provider_working_hours: {
+        Row: {
+          created_at: string
+          day_of_week: number
+          end_time: string
+          id: string
+          provider_id: string
+          start_time: string
+        }
+        Insert: {
+          created_at?: string
+          day_of_week: number
+          end_time: string
+          id?: string
+          provider_id: string
+          start_time: string
+        }
+        Update: {
+          created_at?: string
+          day_of_week?: number
+          end_time?: string
+          id?: string
+          provider_id?: string
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_working_hours_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "provider_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_requests: {
+        Row: {
+          category_id: string
+          created_at: string
+          description: string
+          frequency: string
+          id: string
+          interval_count: number
+          is_active: boolean
+          location_address: string | null
+          location_lat: number
+          location_lng: number
+          next_due_on: string
+          preferred_end_time: string | null
+          preferred_start_time: string | null
+          priority: Database["public"]["Enums"]["request_priority"]
+          resident_id: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          description: string
+          frequency: string
+          id?: string
+          interval_count?: number
+          is_active?: boolean
+          location_address?: string | null
+          location_lat: number
+          location_lng: number
+          next_due_on: string
+          preferred_end_time?: string | null
+          preferred_start_time?: string | null
+          priority?: Database["public"]["Enums"]["request_priority"]
+          resident_id: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          description?: string
+          frequency?: string
+          id?: string
+          interval_count?: number
+          is_active?: boolean
+          location_address?: string | null
+          location_lat?: number
+          location_lng?: number
+          next_due_on?: string
+          preferred_end_time?: string | null
+          preferred_start_time?: string | null
+          priority?: Database["public"]["Enums"]["request_priority"]
+          resident_id?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_requests_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "service_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_requests_resident_id_fkey"
+            columns: ["resident_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_completion_codes: {
+        Row: {
+          code: string
+          created_at: string
+          failed_attempts: number
+          request_id: string
+          verification_method: string | null
+          verified_at: string | null
+          verified_by: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          failed_attempts?: number
+          request_id: string
+          verification_method?: string | null
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          failed_attempts?: number
+          request_id?: string
+          verification_method?: string | null
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_completion_codes_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: true
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_completion_codes_verified_by_fkey"
+            columns: ["verified_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_disputes: {
+        Row: {
+          created_at: string
+          id: string
+          outcome: Database["public"]["Enums"]["request_status"] | null
+          photos: string[]
+          raised_by: string | null
+          reason: string
+          request_id: string
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          outcome?: Database["public"]["Enums"]["request_status"] | null
+          photos?: string[]
+          raised_by?: string | null
+          reason: string
+          request_id: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          outcome?: Database["public"]["Enums"]["request_status"] | null
+          photos?: string[]
+          raised_by?: string | null
+          reason?: string
+          request_id?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_disputes_raised_by_fkey"
+            columns: ["raised_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_disputes_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_disputes_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_offers: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          provider_id: string
+          release_notes: string | null
+          release_reason: string | null
+          request_id: string
+          responded_at: string | null
+          status: Database["public"]["Enums"]["offer_status"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          provider_id: string
+          release_notes?: string | null
+          release_reason?: string | null
+          request_id: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["offer_status"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          provider_id?: string
+          release_notes?: string | null
+          release_reason?: string | null
+          request_id?: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["offer_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_offers_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "provider_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_offers_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       request_status_history: {
         Row: {
           changed_by: string | null
@@ -188,6 +743,56 @@ export type Database = {
           },
         ]
       }
+      request_status_transitions: {
+        Row: {
+          actor: string
+          from_status: Database["public"]["Enums"]["request_status"]
+          to_status: Database["public"]["Enums"]["request_status"]
+        }
+        Insert: {
+          actor: string
+          from_status: Database["public"]["Enums"]["request_status"]
+          to_status: Database["public"]["Enums"]["request_status"]
+        }
+        Update: {
+          actor?: string
+          from_status?: Database["public"]["Enums"]["request_status"]
+          to_status?: Database["public"]["Enums"]["request_status"]
+        }
+        Relationships: []
+      }
+      request_time_windows: {
+        Row: {
+          created_at: string
+          ends_at: string
+          id: string
+          request_id: string
+          starts_at: string
+        }
+        Insert: {
+          created_at?: string
+          ends_at: string
+          id?: string
+          request_id: string
+          starts_at: string
+        }
+        Update: {
+          created_at?: string
+          ends_at?: string
+          id?: string
+          request_id?: string
+          starts_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_time_windows_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       service_categories: {
         Row: {
           created_at: string
@@ -212,49 +817,91 @@ export type Database = {
       service_requests: {
         Row: {
           assigned_at: string | null
+          cancellation_notes: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
           category_id: string
           completed_at: string | null
+          completion_requested_at: string | null
           created_at: string
           description: string
           id: string
+          idempotency_key: string | null
+          late_cancellation: boolean
+          location: unknown | null
           location_address: string | null
           location_lat: number
           location_lng: number
+          matching_reset_at: string | null
           photos: string[] | null
+          priority: Database["public"]["Enums"]["request_priority"]
           provider_id: string | null
+          recurring_request_id: string | null
           resident_id: string
+          scheduled_end: string | null
+          scheduled_start: string | null
+          sla_escalated_at: string | null
+          started_at: string | null
           status: Database["public"]["Enums"]["request_status"]
           updated_at: string
         }
         Insert: {
           assigned_at?: string | null
+          cancellation_notes?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           category_id: string
           completed_at?: string | null
+          completion_requested_at?: string | null
           created_at?: string
           description: string
           id?: string
+          idempotency_key?: string | null
+          late_cancellation?: boolean
+          location?: never
           location_address?: string | null
           location_lat: number
           location_lng: number
+          matching_reset_at?: string | null
           photos?: string[] | null
+          priority?: Database["public"]["Enums"]["request_priority"]
           provider_id?: string | null
+          recurring_request_id?: string | null
           resident_id: string
+          scheduled_end?: string | null
+          scheduled_start?: string | null
+          sla_escalated_at?: string | null
+          started_at?: string | null
           status?: Database["public"]["Enums"]["request_status"]
           updated_at?: string
         }
         Update: {
           assigned_at?: string | null
+          cancellation_notes?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           category_id?: string
           completed_at?: string | null
+          completion_requested_at?: string | null
           created_at?: string
           description?: string
           id?: string
+          idempotency_key?: string | null
+          late_cancellation?: boolean
+          location?: never
           location_address?: string | null
           location_lat?: number
           location_lng?: number
+          matching_reset_at?: string | null
           photos?: string[] | null
+          priority?: Database["public"]["Enums"]["request_priority"]
           provider_id?: string | null
+          recurring_request_id?: string | null
           resident_id?: string
+          scheduled_end?: string | null
+          scheduled_start?: string | null
+          sla_escalated_at?: string | null
+          started_at?: string | null
           status?: Database["public"]["Enums"]["request_status"]
           updated_at?: string
         }
@@ -273,6 +920,13 @@ export type Database = {
             referencedRelation: "provider_profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "service_requests_recurring_request_id_fkey"
+            columns: ["recurring_request_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_requests"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "service_requests_resident_id_fkey"
             columns: ["resident_id"]
@@ -305,9 +959,167 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      provider_bases: {
+        Row: {
+          location: unknown | null
+          name: string | null
+          provider_id: string | null
+          radius_km: number | null
+        }
+        Relationships: []
+      }
+      provider_reliability: {
+        Row: {
+          jobs_completed: number | null
+          jobs_released: number | null
+          offers_accepted: number | null
+          offers_declined: number | null
+          offers_expired: number | null
+          offers_received: number | null
+          provider_id: string | null
+          release_rate: number | null
+        }
+        Relationships: []
+      }
+      request_work_durations: {
+        Row: {
+          awaiting_confirmation_seconds: number | null
+          category_id: string | null
+          completed_at: string | null
+          elapsed_seconds: number | null
+          paused_seconds: number | null
+          provider_id: string | null
+          request_id: string | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["request_status"] | null
+          working_seconds: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      admin_assign_request: {
+        Args: {
+          _notes: string
+          _provider_id: string
+          _request_id: string
+        }
+        Returns: Json
+      }
+      admin_unassign_request: {
+        Args: {
+          _notes: string
+          _request_id: string
+        }
+        Returns: Json
+      }
+      advance_offer: {
+        Args: {
+          _request_id: string
+        }
+        Returns: Json
+      }
+      app_setting: {
+        Args: {
+          _key: string
+        }
+        Returns: Json
+      }
+      auto_confirm_completions: {
+        Args: never
+        Returns: number
+      }
+      cancel_request: {
+        Args: {
+          _notes?: string
+          _reason: string
+          _request_id: string
+        }
+        Returns: Json
+      }
+      candidate_search_radius_km: {
+        Args: {
+          _radius_extension_km?: number
+          _request_id: string
+          _search_radius_km?: number
+        }
+        Returns: number
+      }
+      completion_verified: {
+        Args: {
+          _request_id: string
+        }
+        Returns: boolean
+      }
+      confirm_completion: {
+        Args: {
+          _request_id: string
+        }
+        Returns: Json
+      }
+      dispatch_provider_matching: {
+        Args: {
+          _provider_user_id: string
+        }
+        Returns: undefined
+      }
+      dispatch_request_matching: {
+        Args: {
+          _request_id: string
+        }
+        Returns: undefined
+      }
+      dispatch_shift_starts: {
+        Args: never
+        Returns: number
+      }
+      dispute_completion: {
+        Args: {
+          _photos?: string[]
+          _reason: string
+          _request_id: string
+        }
+        Returns: Json
+      }
+      expire_stale_offers: {
+        Args: never
+        Returns: number
+      }
+      find_pending_requests_near: {
+        Args: {
+          _provider_id: string
+        }
+        Returns: Database["public"]["Tables"]["service_requests"]["Row"][]
+      }
+      find_provider_candidates: {
+        Args: {
+          _radius_extension_km?: number
+          _request_id: string
+          _search_radius_km?: number
+        }
+        Returns: {
+          active_jobs: number
+          base_name: string
+          booked: boolean
+          distance_km: number
+          is_available: boolean
+          last_assigned_at: string
+          max_active_jobs: number
+          on_shift: boolean
+          outside_radius_km: number
+          previously_offered: boolean
+          provider_id: string
+          provider_name: string
+          rating: number
+          service_area_distance_km: number
+          service_radius_km: number
+          user_id: string
+        }[]
+      }
+      generate_completion_code: {
+        Args: never
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -315,13 +1127,179 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoke_edge_function: {
+        Args: {
+          _body?: Json
+          _name: string
+        }
+        Returns: number
+      }
+      materialize_recurring_requests: {
+        Args: never
+        Returns: number
+      }
+      offer_request: {
+        Args: {
+          _fallback_provider_ids?: string[]
+          _provider_id: string
+          _request_id: string
+        }
+        Returns: Json
+      }
+      offer_timeout: {
+        Args: never
+        Returns: unknown
+      }
+      polygon_from_path: {
+        Args: {
+          _path: Json
+        }
+        Returns: unknown
+      }
+      previous_series_provider: {
+        Args: {
+          _request_id: string
+        }
+        Returns: string
+      }
+      provider_booked_for_request: {
+        Args: {
+          _provider_id: string
+          _request_id: string
+        }
+        Returns: boolean
+      }
+      provider_is_on_shift: {
+        Args: {
+          _at?: string
+          _provider_id: string
+        }
+        Returns: boolean
+      }
+      provider_nearest_base: {
+        Args: {
+          _provider_id: string
+          _request_id: string
+        }
+        Returns: {
+          distance_km: number
+          name: string
+          radius_km: number
+        }[]
+      }
+      provider_open_jobs: {
+        Args: {
+          _provider_id: string
+        }
+        Returns: number
+      }
+      provider_outside_radius_km: {
+        Args: {
+          _provider_id: string
+          _request_id: string
+        }
+        Returns: number
+      }
+      provider_previously_offered: {
+        Args: {
+          _provider_id: string
+          _request_id: string
+        }
+        Returns: boolean
+      }
+      provider_service_area_distance_km: {
+        Args: {
+          _provider_id: string
+          _request_id: string
+        }
+        Returns: number
+      }
+      provider_within_km: {
+        Args: {
+          _provider_id: string
+          _radius_km: number
+          _request_id: string
+        }
+        Returns: boolean
+      }
+      release_request: {
+        Args: {
+          _notes?: string
+          _reason: string
+          _request_id: string
+        }
+        Returns: Json
+      }
+      request_status_actor: {
+        Args: {
+          _provider_id: string
+          _resident_id: string
+        }
+        Returns: string
+      }
+      resolve_dispute: {
+        Args: {
+          _dispute_id: string
+          _outcome: Database["public"]["Enums"]["request_status"]
+          _resolution: string
+        }
+        Returns: Json
+      }
+      respond_to_offer: {
+        Args: {
+          _accept: boolean
+          _request_id: string
+        }
+        Returns: Json
+      }
+      schedule_request: {
+        Args: {
+          _ends_at: string
+          _request_id: string
+          _starts_at: string
+        }
+        Returns: Json
+      }
+      skip_completion_code: {
+        Args: {
+          _notes: string
+          _request_id: string
+        }
+        Returns: Json
+      }
+      submit_completion_code: {
+        Args: {
+          _code: string
+          _request_id: string
+        }
+        Returns: Json
+      }
+      transition_request: {
+        Args: {
+          _notes?: string
+          _request_id: string
+          _status: Database["public"]["Enums"]["request_status"]
+        }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "admin" | "resident" | "provider"
+      offer_status:
+        | "pending"
+        | "accepted"
+        | "declined"
+        | "expired"
+        | "released"
+      request_priority: "low" | "normal" | "high" | "emergency"
       request_status:
         | "pending"
+        | "offered"
         | "assigned"
         | "in_progress"
+        | "paused"
+        | "pending_confirmation"
+        | "disputed"
         | "completed"
         | "cancelled"
     }
@@ -452,10 +1430,16 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "resident", "provider"],
+      offer_status: ["pending", "accepted", "declined", "expired", "released"],
+      request_priority: ["low", "normal", "high", "emergency"],
       request_status: [
         "pending",
+        "offered",
         "assigned",
         "in_progress",
+        "paused",
+        "pending_confirmation",
+        "disputed",
         "completed",
         "cancelled",
       ],
@@ -0,0 +1,38 @@
+import { RequestStatus } from "@/lib/request-status";
+
+// Must match the CHECK constraint on service_requests.cancellation_reason
+export type CancellationReason =
+  | "no_longer_needed"
+  | "found_another_provider"
+  | "took_too_long"
+  | "schedule_conflict"
+  | "too_expensive"
+  | "other";
+
+export const cancellationReasons: { value: CancellationReason; label: string }[] = [
+  { value: "no_longer_needed", label: "I no longer need this service" },
+  { value: "found_another_provider", label: "I found someone else" },
+  { value: "took_too_long", label: "It's taking too long" },
+  { value: "schedule_conflict", label: "The timing doesn't work for me" },
+  { value: "too_expensive", label: "It's too expensive" },
+  { value: "other", label: "Other" },
+];
+
+// Shape of the cancellation_policy app setting
+export interface CancellationPolicy {
+  cancellable_statuses: RequestStatus[];
+  free_cancellation_minutes: number;
+  allow_late_cancellation: boolean;
+  notify_provider: boolean;
+}
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  cancellable_statuses: ["pending", "offered", "assigned"],
+  free_cancellation_minutes: 30,
+  allow_late_cancellation: true,
+  notify_provider: true,
+};
+
+// When cancelling an assigned request becomes a late cancellation
+export const lateCancellationAt = (policy: CancellationPolicy, assignedAt: string | null) =>
+  assignedAt ? new Date(new Date(assignedAt).getTime() + policy.free_cancellation_minutes * 60_000) : null;
@@ -0,0 +1,15 @@
+// Must match the CHECK constraint on request_offers.release_reason
+export type ReleaseReason =
+  | "schedule_conflict"
+  | "too_far"
+  | "missing_skills_or_parts"
+  | "personal_emergency"
+  | "other";
+
+export const releaseReasons: { value: ReleaseReason; label: string }[] = [
+  { value: "schedule_conflict", label: "I can't fit it into my schedule" },
+  { value: "too_far", label: "It's too far away" },
+  { value: "missing_skills_or_parts", label: "I don't have the skills or parts needed" },
+  { value: "personal_emergency", label: "Personal emergency" },
+  { value: "other", label: "Other" },
+];
@@ -0,0 +1,10 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type RequestPriority = Database["public"]["Enums"]["request_priority"];
+
+export const priorityOptions: { value: RequestPriority; label: string; description: string }[] = [
+  { value: "low", label: "Low", description: "Whenever convenient" },
+  { value: "normal", label: "Normal", description: "Within the next few days" },
+  { value: "high", label: "High", description: "Needs attention soon" },
+  { value: "emergency", label: "Emergency", description: "Risk to safety or property, e.g. a burst pipe" },
+];
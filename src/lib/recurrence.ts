@@ -0,0 +1,22 @@
+// Must match the CHECK constraint on recurring_requests.frequency
+export type RecurrenceFrequency = "weekly" | "monthly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+}
+
+export const recurrencePresets: { value: string; label: string; rule: RecurrenceRule }[] = [
+  { value: "1-week", label: "Every week", rule: { frequency: "weekly", interval_count: 1 } },
+  { value: "2-week", label: "Every 2 weeks", rule: { frequency: "weekly", interval_count: 2 } },
+  { value: "1-month", label: "Every month", rule: { frequency: "monthly", interval_count: 1 } },
+  { value: "3-month", label: "Every 3 months", rule: { frequency: "monthly", interval_count: 3 } },
+  { value: "6-month", label: "Every 6 months", rule: { frequency: "monthly", interval_count: 6 } },
+  { value: "12-month", label: "Every year", rule: { frequency: "monthly", interval_count: 12 } },
+];
+
+export const describeRecurrence = ({ frequency, interval_count }: RecurrenceRule) => {
+  if (frequency === "monthly" && interval_count === 12) return "Every year";
+  const unit = frequency === "weekly" ? "week" : "month";
+  return interval_count === 1 ? `Every ${unit}` : `Every ${interval_count} ${unit}s`;
+};
@@ -0,0 +1,66 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type RequestStatus = Database["public"]["Enums"]["request_status"];
+
+export type StatusActor = "resident" | "provider" | "admin" | "system";
+
+// Mirrors public.request_status_transitions, which the database enforces on
+// every status change. Offer responses, releases and admin assignment go
+// through SECURITY DEFINER functions and count as "system".
+export const REQUEST_TRANSITIONS: Record<StatusActor, Partial<Record<RequestStatus, RequestStatus[]>>> = {
+  resident: {
+    pending: ["cancelled"],
+    offered: ["cancelled"],
+    assigned: ["cancelled"],
+    pending_confirmation: ["completed", "disputed"],
+  },
+  provider: {
+    assigned: ["in_progress"],
+    in_progress: ["paused", "pending_confirmation"],
+    paused: ["in_progress"],
+  },
+  admin: {
+    pending: ["cancelled"],
+    offered: ["cancelled"],
+    assigned: ["in_progress", "cancelled"],
+    // pending_confirmation through skip_completion_code
+    in_progress: ["paused", "pending_confirmation", "completed", "cancelled"],
+    paused: ["in_progress", "cancelled"],
+    pending_confirmation: ["completed"],
+    // Through resolve_dispute, which closes the dispute as well
+    disputed: ["completed", "in_progress", "cancelled"],
+  },
+  system: {
+    pending: ["offered", "assigned"],
+    offered: ["pending", "assigned"],
+    assigned: ["pending"],
+    pending_confirmation: ["completed"],
+  },
+};
+
+export const allowedTransitions = (actor: StatusActor, from: RequestStatus): RequestStatus[] =>
+  REQUEST_TRANSITIONS[actor][from] ?? [];
+
+export const canTransition = (actor: StatusActor, from: RequestStatus, to: RequestStatus) =>
+  allowedTransitions(actor, from).includes(to);
+
+// Button label for moving a request into a status
+export const transitionLabels: Partial<Record<RequestStatus, string>> = {
+  in_progress: "Start Job",
+  paused: "Pause Job",
+  pending_confirmation: "Mark Completed",
+  disputed: "Report a Problem",
+  completed: "Mark Completed",
+  cancelled: "Cancel Request",
+};
+
+export const transitionLabel = (from: RequestStatus, to: RequestStatus) => {
+  if (from === "paused" && to === "in_progress") return "Resume Job";
+  if (from === "disputed" && to === "in_progress") return "Reopen Job";
+  if (from === "pending_confirmation" && to === "completed") return "Confirm Completion";
+  return transitionLabels[to] ?? to.replace(/_/g, " ");
+};
+
+// transition_request rejects pausing or resuming without a reason
+export const requiresReason = (from: RequestStatus, to: RequestStatus) =>
+  to === "paused" || (from === "paused" && to === "in_progress");
@@ -0,0 +1,27 @@
+import { format } from "date-fns";
+
+// A row of request_time_windows, or the confirmed appointment
+export interface TimeWindow {
+  starts_at: string;
+  ends_at: string;
+}
+
+// Combine a calendar day with an "HH:mm" time from a time input
+export const atTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+// Windows are picked as a day with a start and end time on that day.
+// Returns null when the end isn't after the start.
+export const buildWindow = (day: Date, startTime: string, endTime: string): TimeWindow | null => {
+  const start = atTime(day, startTime);
+  const end = atTime(day, endTime);
+  if (end <= start) return null;
+  return { starts_at: start.toISOString(), ends_at: end.toISOString() };
+};
+
+export const formatWindow = ({ starts_at, ends_at }: TimeWindow) =>
+  `${format(new Date(starts_at), "EEE, MMM d, h:mm a")} – ${format(new Date(ends_at), "h:mm a")}`;
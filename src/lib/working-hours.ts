@@ -0,0 +1,26 @@
+export interface WorkingDay {
+  // 0 = Sunday, as Date.getDay() and provider_working_hours.day_of_week
+  dayOfWeek: number;
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Monday first, as shown in the editor
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const defaultWorkingHours = (): WorkingDay[] =>
+  DAY_NAMES.map((_, dayOfWeek) => ({ dayOfWeek, enabled: false, start: "09:00", end: "17:00" }));
+
+// Merge saved rows into a full week. Postgres returns TIME as "HH:MM:SS".
+export const toWorkingDays = (
+  rows: { day_of_week: number; start_time: string; end_time: string }[]
+): WorkingDay[] =>
+  defaultWorkingHours().map((day) => {
+    const row = rows.find((r) => r.day_of_week === day.dayOfWeek);
+    return row
+      ? { ...day, enabled: true, start: row.start_time.slice(0, 5), end: row.end_time.slice(0, 5) }
+      : day;
+  });
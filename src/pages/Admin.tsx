@@ -6,8 +6,16 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Users, FileText, Settings, Wrench } from "lucide-react";
+import { AlertTriangle, ArrowLeft, Users, FileText, Settings, Wrench } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { AssignmentExplanation } from "@/components/AssignmentExplanation";
+import { AssignmentHistory } from "@/components/AssignmentHistory";
+import { ManualAssignment } from "@/components/ManualAssignment";
+import { AdminStatusActions } from "@/components/AdminStatusActions";
+import { PriorityBadge } from "@/components/PriorityBadge";
+import { ReliabilitySummary } from "@/components/ReliabilitySummary";
+import { DisputeQueue } from "@/components/DisputeQueue";
+import { Tables } from "@/integrations/supabase/types";
 import { format } from "date-fns";
 
 const Admin = () => {
@@ -17,6 +25,8 @@ const Admin = () => {
   const [users, setUsers] = useState<any[]>([]);
   const [requests, setRequests] = useState<any[]>([]);
   const [categories, setCategories] = useState<any[]>([]);
+  // Keyed by the provider's user id
+  const [reliability, setReliability] = useState<Record<string, Tables<"provider_reliability">>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -44,6 +54,7 @@ const Admin = () => {
       loadUsers(),
       loadRequests(),
       loadCategories(),
+      loadReliability(),
     ]);
     setLoading(false);
   };
@@ -70,6 +81,20 @@ const Admin = () => {
     setRequests(data || []);
   };
 
+  const loadReliability = async () => {
+    const [{ data: providers }, { data: stats }] = await Promise.all([
+      supabase.from("provider_profiles").select("id, user_id"),
+      supabase.from("provider_reliability").select("*"),
+    ]);
+
+    const byUser: Record<string, Tables<"provider_reliability">> = {};
+    for (const provider of providers || []) {
+      const providerStats = stats?.find((s) => s.provider_id === provider.id);
+      if (providerStats) byUser[provider.user_id] = providerStats;
+    }
+    setReliability(byUser);
+  };
+
   const loadCategories = async () => {
     const { data } = await supabase
       .from("service_categories")
@@ -103,11 +128,15 @@ const Admin = () => {
 
       <main className="container mx-auto px-4 py-8">
         <Tabs defaultValue="requests" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 max-w-md">
+          <TabsList className="grid w-full grid-cols-4 max-w-lg">
             <TabsTrigger value="requests">
               <FileText className="h-4 w-4 mr-2" />
               Requests
             </TabsTrigger>
+            <TabsTrigger value="disputes">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Disputes
+            </TabsTrigger>
             <TabsTrigger value="users">
               <Users className="h-4 w-4 mr-2" />
               Users
@@ -138,8 +167,9 @@ const Admin = () => {
                                 {request.service_categories?.name}
                               </h3>
                               <Badge variant="secondary" className="capitalize">
-                                {request.status.replace("_", " ")}
+                                {request.status.replace(/_/g, " ")}
                               </Badge>
+                              <PriorityBadge priority={request.priority} />
                             </div>
                             <p className="text-sm text-muted-foreground">
                               Resident: {request.profiles?.name || "Unknown"}
@@ -149,6 +179,21 @@ const Admin = () => {
                               Created: {format(new Date(request.created_at), "MMM d, yyyy")}
                             </p>
                           </div>
+                          <div className="flex gap-2">
+                            <AdminStatusActions
+                              requestId={request.id}
+                              currentStatus={request.status}
+                              onStatusUpdate={loadRequests}
+                            />
+                            <ManualAssignment
+                              requestId={request.id}
+                              status={request.status}
+                              providerId={request.provider_id}
+                              onChanged={loadRequests}
+                            />
+                            <AssignmentExplanation requestId={request.id} />
+                            <AssignmentHistory requestId={request.id} />
+                          </div>
                         </div>
                       </CardContent>
                     </Card>
@@ -158,6 +203,10 @@ const Admin = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="disputes" className="space-y-4">
+            <DisputeQueue onResolved={loadRequests} />
+          </TabsContent>
+
           <TabsContent value="users" className="space-y-4">
             <Card>
               <CardHeader>
@@ -180,6 +229,9 @@ const Admin = () => {
                             <p className="text-sm text-muted-foreground">
                               Address: {userProfile.address || "Not provided"}
                             </p>
+                            {reliability[userProfile.id] && (
+                              <ReliabilitySummary stats={reliability[userProfile.id]} />
+                            )}
                             <p className="text-xs text-muted-foreground">
                               Joined: {format(new Date(userProfile.created_at), "MMM d, yyyy")}
                             </p>
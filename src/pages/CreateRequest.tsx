@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,8 +8,11 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Upload, X } from "lucide-react";
+import { ArrowLeft, Loader2, Upload, X } from "lucide-react";
 import { LocationPicker } from "@/components/LocationPicker";
+import { TimeWindowPicker } from "@/components/TimeWindowPicker";
+import { type TimeWindow } from "@/lib/scheduling";
+import { priorityOptions, type RequestPriority } from "@/lib/priority";
 
 interface ServiceCategory {
   id: string;
@@ -17,14 +20,31 @@ interface ServiceCategory {
   description: string | null;
 }
 
+interface MatchingFields {
+  category_id: string;
+  location_lat: string;
+  location_lng: string;
+}
+
+// Also the edit form for pending requests (/requests/:id/edit)
 const CreateRequest = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { id: editingRequestId } = useParams<{ id: string }>();
+  const isEditing = editingRequestId !== undefined;
+  const [loadingRequest, setLoadingRequest] = useState(isEditing);
+  // What matching depended on when the request was loaded for editing
+  const [originalMatching, setOriginalMatching] = useState<MatchingFields | null>(null);
+  // Photos the request already has, as public URLs, and the ones it had
+  // when loaded, so photos removed while editing can be deleted from storage
+  const [existingPhotos, setExistingPhotos] = useState<string[]>([]);
+  const [originalPhotos, setOriginalPhotos] = useState<string[]>([]);
   const [categories, setCategories] = useState<ServiceCategory[]>([]);
   const [loading, setLoading] = useState(false);
   const [uploadingPhoto, setUploadingPhoto] = useState(false);
   const [formData, setFormData] = useState({
     category_id: "",
+    priority: "normal" as RequestPriority,
     description: "",
     location_address: "",
     location_lat: "",
@@ -32,10 +52,74 @@ const CreateRequest = () => {
   });
   const [photos, setPhotos] = useState<File[]>([]);
   const [photoPreview, setPhotoPreview] = useState<string[]>([]);
+  const [timeWindows, setTimeWindows] = useState<TimeWindow[]>([]);
+  // One key per form: resubmitting after a dropped connection reuses the
+  // request, photos and assignment result from the first attempt
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
 
   useEffect(() => {
     loadCategories();
-  }, []);
+    if (editingRequestId) {
+      loadRequest(editingRequestId);
+    }
+  }, [editingRequestId]);
+
+  const loadRequest = async (requestId: string) => {
+    setLoadingRequest(true);
+    try {
+      const { data: request, error } = await supabase
+        .from("service_requests")
+        .select("category_id, priority, description, location_address, location_lat, location_lng, photos, status")
+        .eq("id", requestId)
+        .single();
+
+      if (error) throw error;
+
+      if (request.status !== "pending") {
+        toast({
+          variant: "destructive",
+          title: "Can't Edit Request",
+          description: "Only requests that haven't been offered to a provider yet can be edited",
+        });
+        navigate("/");
+        return;
+      }
+
+      const fields = {
+        category_id: request.category_id,
+        location_lat: request.location_lat?.toString() ?? "",
+        location_lng: request.location_lng?.toString() ?? "",
+      };
+
+      setFormData({
+        ...fields,
+        priority: request.priority,
+        description: request.description,
+        location_address: request.location_address ?? "",
+      });
+      setOriginalMatching(fields);
+      setExistingPhotos(request.photos ?? []);
+      setOriginalPhotos(request.photos ?? []);
+
+      const { data: windows } = await supabase
+        .from("request_time_windows")
+        .select("starts_at, ends_at")
+        .eq("request_id", requestId)
+        .order("starts_at");
+
+      setTimeWindows(windows ?? []);
+    } catch (error) {
+      console.error("Error loading request:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load the request",
+      });
+      navigate("/");
+    } finally {
+      setLoadingRequest(false);
+    }
+  };
 
   const loadCategories = async () => {
     const { data, error } = await supabase
@@ -57,7 +141,7 @@ const CreateRequest = () => {
 
   const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
-    if (files.length + photos.length > 5) {
+    if (files.length + photos.length + existingPhotos.length > 5) {
       toast({
         variant: "destructive",
         title: "Too many photos",
@@ -84,16 +168,21 @@ const CreateRequest = () => {
     setPhotoPreview(newPreviews);
   };
 
+  const removeExistingPhoto = (index: number) => {
+    setExistingPhotos(existingPhotos.filter((_, i) => i !== index));
+  };
+
   const uploadPhotos = async (userId: string): Promise<string[]> => {
     const uploadedUrls: string[] = [];
 
-    for (const photo of photos) {
+    for (const [index, photo] of photos.entries()) {
       const fileExt = photo.name.split('.').pop();
-      const fileName = `${userId}/${Date.now()}-${Math.random()}.${fileExt}`;
+      // Stable path so a retried upload overwrites instead of duplicating
+      const fileName = `${userId}/${idempotencyKey}/${index}.${fileExt}`;
 
       const { error: uploadError } = await supabase.storage
         .from("service-photos")
-        .upload(fileName, photo);
+        .upload(fileName, photo, { upsert: true });
 
       if (uploadError) {
         console.error("Error uploading photo:", uploadError);
@@ -110,6 +199,117 @@ const CreateRequest = () => {
     return uploadedUrls;
   };
 
+  // Delete the files of photos removed while editing. The request no longer
+  // points at them, so a failure here only leaves an orphaned file behind.
+  const deleteRemovedPhotos = async () => {
+    const removedPaths = originalPhotos
+      .filter((url) => !existingPhotos.includes(url))
+      .map((url) => url.split("/service-photos/")[1])
+      .filter((path): path is string => Boolean(path))
+      .map((path) => decodeURIComponent(path));
+
+    if (removedPaths.length === 0) return;
+
+    const { error } = await supabase.storage
+      .from("service-photos")
+      .remove(removedPaths);
+
+    if (error) {
+      console.error("Error deleting removed photos:", error);
+    }
+  };
+
+  // Trigger automatic provider assignment
+  const runMatching = async (requestId: string, action: "created" | "updated") => {
+    const title = action === "created" ? "Request Created" : "Request Updated";
+
+    try {
+      const { data: assignmentResult } = await supabase.functions.invoke(
+        "assign-provider",
+        {
+          body: { requestId, idempotencyKey },
+        }
+      );
+
+      if (assignmentResult?.success) {
+        toast({
+          title: "Success",
+          description: `Request ${action} and offered to ${assignmentResult.provider.name}. Waiting for them to accept.`,
+        });
+      } else {
+        toast({
+          title,
+          description: "No providers available nearby. Your request is pending.",
+        });
+      }
+    } catch (assignError) {
+      console.error("Assignment error:", assignError);
+      toast({
+        title,
+        description: "Your request is pending provider assignment.",
+      });
+    }
+  };
+
+  const updateRequest = async (requestId: string, uploadedPhotoUrls: string[]) => {
+    const { data: updated, error } = await supabase
+      .from("service_requests")
+      .update({
+        category_id: formData.category_id,
+        priority: formData.priority,
+        description: formData.description,
+        location_address: formData.location_address || null,
+        location_lat: parseFloat(formData.location_lat),
+        location_lng: parseFloat(formData.location_lng),
+        photos: [...existingPhotos, ...uploadedPhotoUrls],
+      })
+      .eq("id", requestId)
+      .eq("status", "pending")
+      .select("id");
+
+    if (error) throw error;
+
+    // Residents can only update requests that are still pending
+    if (!updated || updated.length === 0) {
+      throw new Error("This request has already been offered to a provider and can no longer be edited");
+    }
+
+    await deleteRemovedPhotos();
+
+    const { error: deleteError } = await supabase
+      .from("request_time_windows")
+      .delete()
+      .eq("request_id", requestId);
+
+    if (deleteError) throw deleteError;
+
+    if (timeWindows.length > 0) {
+      const { error: windowsError } = await supabase
+        .from("request_time_windows")
+        .insert(timeWindows.map((timeWindow) => ({ request_id: requestId, ...timeWindow })));
+
+      if (windowsError) throw windowsError;
+    }
+
+    // Providers were matched on the old category and location. The database
+    // drops the old fallback queue and stops counting earlier offers, so
+    // providers who declined the old details can be offered the new ones.
+    const matchingChanged =
+      originalMatching !== null &&
+      (originalMatching.category_id !== formData.category_id ||
+        originalMatching.location_lat !== formData.location_lat ||
+        originalMatching.location_lng !== formData.location_lng);
+
+    if (matchingChanged) {
+      await runMatching(requestId, "updated");
+    } else {
+      toast({
+        title: "Request Updated",
+        description: "Your changes have been saved",
+      });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -139,59 +339,69 @@ const CreateRequest = () => {
         setUploadingPhoto(false);
       }
 
+      if (editingRequestId) {
+        await updateRequest(editingRequestId, photoUrls);
+        navigate("/");
+        return;
+      }
+
       // Create service request
-      const { data: newRequest, error } = await supabase
+      const { data: insertedRequest, error } = await supabase
         .from("service_requests")
         .insert({
           resident_id: user.id,
           category_id: formData.category_id,
+          priority: formData.priority,
           description: formData.description,
           location_address: formData.location_address || null,
           location_lat: parseFloat(lat),
           location_lng: parseFloat(lng),
           photos: photoUrls,
           status: "pending",
+          idempotency_key: idempotencyKey,
         })
         .select()
         .single();
 
-      if (error) throw error;
+      let newRequest = insertedRequest;
+
+      // 23505 = unique_violation: an earlier attempt already created the request
+      if (error?.code === "23505") {
+        const { data: existingRequest, error: existingError } = await supabase
+          .from("service_requests")
+          .select()
+          .eq("resident_id", user.id)
+          .eq("idempotency_key", idempotencyKey)
+          .single();
+
+        if (existingError) throw existingError;
+        newRequest = existingRequest;
+      } else if (error) {
+        throw error;
+      }
 
-      // Trigger automatic provider assignment
-      try {
-        const { data: assignmentResult } = await supabase.functions.invoke(
-          "assign-provider",
-          {
-            body: { requestId: newRequest.id },
-          }
-        );
-
-        if (assignmentResult?.success) {
-          toast({
-            title: "Success",
-            description: `Request created and assigned to ${assignmentResult.provider.name}`,
-          });
-        } else {
-          toast({
-            title: "Request Created",
-            description: "No providers available nearby. Your request is pending.",
-          });
-        }
-      } catch (assignError) {
-        console.error("Assignment error:", assignError);
-        toast({
-          title: "Request Created",
-          description: "Your request is pending provider assignment.",
-        });
+      // Windows go in before matching, which skips providers already
+      // booked at those times
+      if (timeWindows.length > 0 && newRequest.status === "pending") {
+        const { error: windowsError } = await supabase
+          .from("request_time_windows")
+          .upsert(
+            timeWindows.map((timeWindow) => ({ request_id: newRequest.id, ...timeWindow })),
+            { onConflict: "request_id,starts_at,ends_at", ignoreDuplicates: true }
+          );
+
+        if (windowsError) throw windowsError;
       }
 
+      await runMatching(newRequest.id, "created");
+
       navigate("/");
     } catch (error: any) {
-      console.error("Error creating request:", error);
+      console.error("Error saving request:", error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: error.message || "Failed to create service request",
+        description: error.message || (isEditing ? "Failed to update service request" : "Failed to create service request"),
       });
     } finally {
       setLoading(false);
@@ -213,134 +423,199 @@ const CreateRequest = () => {
       <main className="container mx-auto px-4 py-8">
         <Card className="max-w-2xl mx-auto">
           <CardHeader>
-            <CardTitle>Create Service Request</CardTitle>
+            <CardTitle>{isEditing ? "Edit Service Request" : "Create Service Request"}</CardTitle>
             <CardDescription>
-              Fill in the details below to request a service from nearby providers
+              {isEditing
+                ? "Changing the category or location matches your request with providers again"
+                : "Fill in the details below to request a service from nearby providers"}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="category">Service Category *</Label>
-                <Select
-                  value={formData.category_id}
-                  onValueChange={(value) =>
-                    setFormData({ ...formData, category_id: value })
-                  }
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a service category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {categories.map((category) => (
-                      <SelectItem key={category.id} value={category.id}>
-                        {category.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+            {loadingRequest ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin" />
               </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="category">Service Category *</Label>
+                  <Select
+                    value={formData.category_id}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, category_id: value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a service category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="description">Description *</Label>
-                <Textarea
-                  id="description"
-                  placeholder="Describe the issue or service you need..."
-                  value={formData.description}
-                  onChange={(e) =>
-                    setFormData({ ...formData, description: e.target.value })
-                  }
-                  rows={5}
-                  required
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="priority">Urgency *</Label>
+                  <Select
+                    value={formData.priority}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, priority: value as RequestPriority })
+                    }
+                  >
+                    <SelectTrigger id="priority">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {priorityOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label} – {option.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {formData.priority === "emergency" && (
+                    <p className="text-sm text-muted-foreground">
+                      Emergencies are offered first and to any available provider nearby, even outside
+                      their usual service area.
+                    </p>
+                  )}
+                </div>
 
-              <div>
-                <LocationPicker
-                  onLocationSelect={(lat, lng, address) => {
-                    setFormData({
-                      ...formData,
-                      location_lat: lat.toString(),
-                      location_lng: lng.toString(),
-                      location_address: address || "",
-                    });
-                  }}
-                  initialLat={formData.location_lat && formData.location_lat !== "" ? parseFloat(formData.location_lat) : undefined}
-                  initialLng={formData.location_lng && formData.location_lng !== "" ? parseFloat(formData.location_lng) : undefined}
-                />
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description *</Label>
+                  <Textarea
+                    id="description"
+                    placeholder="Describe the issue or service you need..."
+                    value={formData.description}
+                    onChange={(e) =>
+                      setFormData({ ...formData, description: e.target.value })
+                    }
+                    rows={5}
+                    required
+                  />
+                </div>
 
-              </div>
+                <div>
+                  <LocationPicker
+                    onLocationSelect={(lat, lng, address) => {
+                      setFormData({
+                        ...formData,
+                        location_lat: lat.toString(),
+                        location_lng: lng.toString(),
+                        location_address: address || "",
+                      });
+                    }}
+                    initialLat={formData.location_lat && formData.location_lat !== "" ? parseFloat(formData.location_lat) : undefined}
+                    initialLng={formData.location_lng && formData.location_lng !== "" ? parseFloat(formData.location_lng) : undefined}
+                  />
 
-              <div className="space-y-2">
-                <Label>Photos (Optional)</Label>
-                <div className="space-y-4">
-                  {photoPreview.length > 0 && (
-                    <div className="grid grid-cols-3 gap-4">
-                      {photoPreview.map((preview, index) => (
-                        <div key={index} className="relative group">
-                          <img
-                            src={preview}
-                            alt={`Preview ${index + 1}`}
-                            className="w-full h-24 object-cover rounded-md border"
-                          />
-                          <Button
-                            type="button"
-                            variant="destructive"
-                            size="icon"
-                            className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-                            onClick={() => removePhoto(index)}
-                          >
-                            <X className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      ))}
-                    </div>
-                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Preferred Times (Optional)</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Add one or more times that suit you. Your provider will confirm a slot within one of them.
+                  </p>
+                  <TimeWindowPicker windows={timeWindows} onChange={setTimeWindows} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Photos (Optional)</Label>
+                  <div className="space-y-4">
+                    {existingPhotos.length + photoPreview.length > 0 && (
+                      <div className="grid grid-cols-3 gap-4">
+                        {existingPhotos.map((photo, index) => (
+                          <div key={photo} className="relative group">
+                            <img
+                              src={photo}
+                              alt={`Photo ${index + 1}`}
+                              className="w-full h-24 object-cover rounded-md border"
+                            />
+                            <Button
+                              type="button"
+                              variant="destructive"
+                              size="icon"
+                              className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                              onClick={() => removeExistingPhoto(index)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        {photoPreview.map((preview, index) => (
+                          <div key={index} className="relative group">
+                            <img
+                              src={preview}
+                              alt={`Preview ${index + 1}`}
+                              className="w-full h-24 object-cover rounded-md border"
+                            />
+                            <Button
+                              type="button"
+                              variant="destructive"
+                              size="icon"
+                              className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                              onClick={() => removePhoto(index)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   
-                  {photos.length < 5 && (
-                    <div>
-                      <Input
-                        type="file"
-                        accept="image/*"
-                        multiple
-                        onChange={handlePhotoChange}
-                        className="hidden"
-                        id="photo-upload"
-                      />
-                      <Label
-                        htmlFor="photo-upload"
-                        className="flex items-center justify-center gap-2 border-2 border-dashed rounded-md p-4 cursor-pointer hover:bg-accent transition-colors"
-                      >
-                        <Upload className="h-5 w-5" />
-                        <span>Upload Photos ({photos.length}/5)</span>
-                      </Label>
-                    </div>
-                  )}
+                    {existingPhotos.length + photos.length < 5 && (
+                      <div>
+                        <Input
+                          type="file"
+                          accept="image/*"
+                          multiple
+                          onChange={handlePhotoChange}
+                          className="hidden"
+                          id="photo-upload"
+                        />
+                        <Label
+                          htmlFor="photo-upload"
+                          className="flex items-center justify-center gap-2 border-2 border-dashed rounded-md p-4 cursor-pointer hover:bg-accent transition-colors"
+                        >
+                          <Upload className="h-5 w-5" />
+                          <span>Upload Photos ({existingPhotos.length + photos.length}/5)</span>
+                        </Label>
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
 
-              <div className="flex gap-4">
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => navigate("/")}
-                  className="flex-1"
-                >
-                  Cancel
-                </Button>
-                <Button
-                  type="submit"
-                  disabled={loading || uploadingPhoto}
-                  className="flex-1"
-                >
-                  {loading
-                    ? uploadingPhoto
-                      ? "Uploading photos..."
-                      : "Creating..."
-                    : "Create Request"}
-                </Button>
-              </div>
-            </form>
+                <div className="flex gap-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => navigate("/")}
+                    className="flex-1"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={loading || uploadingPhoto}
+                    className="flex-1"
+                  >
+                    {loading
+                      ? uploadingPhoto
+                        ? "Uploading photos..."
+                        : isEditing
+                          ? "Saving..."
+                          : "Creating..."
+                      : isEditing
+                        ? "Save Changes"
+                        : "Create Request"}
+                  </Button>
+                </div>
+              </form>
+            )}
           </CardContent>
         </Card>
       </main>
@@ -9,6 +9,7 @@ import { useToast } from "@/hooks/use-toast";
 import { ServiceRequestsList } from "@/components/ServiceRequestsList";
 import { AvailabilityToggle } from "@/components/AvailabilityToggle";
 import { NotificationBell } from "@/components/NotificationBell";
+import { RecurringRequests } from "@/components/RecurringRequests";
 
 const Dashboard = () => {
   const navigate = useNavigate();
@@ -165,6 +166,10 @@ const Dashboard = () => {
             </Card>
           </div>
 
+          {userRole === "resident" && user && (
+            <RecurringRequests userId={user.id} />
+          )}
+
           {user && userRole && (userRole === "resident" || userRole === "provider") && (
             <ServiceRequestsList userRole={userRole} userId={user.id} />
           )}
@@ -10,7 +10,11 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Wrench } from "lucide-react";
 import { LocationPicker } from "@/components/LocationPicker";
-import { ServiceAreaMap } from "@/components/ServiceAreaMap";
+import { ServiceAreaMap, ServiceBase } from "@/components/ServiceAreaMap";
+import { ProviderLocationsEditor } from "@/components/ProviderLocationsEditor";
+import { WorkingHoursEditor } from "@/components/WorkingHoursEditor";
+import { TimeOffManager } from "@/components/TimeOffManager";
+import { defaultWorkingHours, toWorkingDays, WorkingDay } from "@/lib/working-hours";
 
 interface ServiceCategory {
   id: string;
@@ -33,10 +37,14 @@ const Profile = () => {
   
   // Provider-specific fields
   const [serviceRadiusKm, setServiceRadiusKm] = useState("10");
+  const [maxActiveJobs, setMaxActiveJobs] = useState("3");
   const [isAvailable, setIsAvailable] = useState(true);
   const [categories, setCategories] = useState<ServiceCategory[]>([]);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [providerProfileId, setProviderProfileId] = useState<string | null>(null);
+  const [workingHours, setWorkingHours] = useState<WorkingDay[]>(defaultWorkingHours());
+  const [serviceAreas, setServiceAreas] = useState<google.maps.LatLngLiteral[][]>([]);
+  const [bases, setBases] = useState<ServiceBase[]>([]);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -102,7 +110,7 @@ const Profile = () => {
 
     const { data, error } = await supabase
       .from("provider_profiles")
-      .select("*, provider_categories(category_id)")
+      .select("*, provider_categories(category_id), provider_working_hours(day_of_week, start_time, end_time), provider_service_areas(path), provider_locations(id, name, location_lat, location_lng, radius_km)")
       .eq("user_id", user.id)
       .single();
 
@@ -113,13 +121,113 @@ const Profile = () => {
     } else {
       setProviderProfileId(data.id);
       setServiceRadiusKm(data.service_area_radius_km?.toString() || "10");
+      setMaxActiveJobs(data.max_active_jobs?.toString() || "3");
       setIsAvailable(data.is_available);
       setSelectedCategories(data.provider_categories?.map((pc: any) => pc.category_id) || []);
+      setWorkingHours(toWorkingDays(data.provider_working_hours || []));
+      setServiceAreas(
+        (data.provider_service_areas || []).map((area) => area.path as unknown as google.maps.LatLngLiteral[])
+      );
+      setBases(
+        (data.provider_locations || []).map((location) => ({
+          id: location.id,
+          name: location.name,
+          lat: Number(location.location_lat),
+          lng: Number(location.location_lng),
+          radiusKm: Number(location.radius_km),
+        }))
+      );
+    }
+  };
+
+  // Replace the provider's weekly schedule with the days switched on
+  const saveWorkingHours = async (providerId: string) => {
+    await supabase
+      .from("provider_working_hours")
+      .delete()
+      .eq("provider_id", providerId);
+
+    const workingDays = workingHours.filter((day) => day.enabled);
+    if (workingDays.length > 0) {
+      const { error } = await supabase
+        .from("provider_working_hours")
+        .insert(
+          workingDays.map((day) => ({
+            provider_id: providerId,
+            day_of_week: day.dayOfWeek,
+            start_time: day.start,
+            end_time: day.end,
+          }))
+        );
+
+      if (error) throw error;
+    }
+  };
+
+  const saveServiceAreas = async (providerId: string) => {
+    await supabase
+      .from("provider_service_areas")
+      .delete()
+      .eq("provider_id", providerId);
+
+    if (serviceAreas.length > 0) {
+      const { error } = await supabase
+        .from("provider_service_areas")
+        .insert(
+          serviceAreas.map((path) => ({
+            provider_id: providerId,
+            path: path.map(({ lat, lng }) => ({ lat, lng })),
+          }))
+        );
+
+      if (error) throw error;
+    }
+  };
+
+  const saveBases = async (providerId: string) => {
+    await supabase
+      .from("provider_locations")
+      .delete()
+      .eq("provider_id", providerId);
+
+    if (bases.length > 0) {
+      const { error } = await supabase
+        .from("provider_locations")
+        .insert(
+          bases.map((base) => ({
+            provider_id: providerId,
+            name: base.name,
+            location_lat: base.lat,
+            location_lng: base.lng,
+            radius_km: base.radiusKm,
+          }))
+        );
+
+      if (error) throw error;
     }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (userRole === "provider" && workingHours.some((day) => day.enabled && day.end <= day.start)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid working hours",
+        description: "Each working day must end after it starts",
+      });
+      return;
+    }
+
+    if (userRole === "provider" && bases.some((base) => !base.name.trim() || base.radiusKm <= 0)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid bases",
+        description: "Each base needs a name and a radius above 0 km",
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -144,7 +252,9 @@ const Profile = () => {
             .from("provider_profiles")
             .update({
               service_area_radius_km: parseFloat(serviceRadiusKm),
+              max_active_jobs: parseInt(maxActiveJobs, 10),
               is_available: isAvailable,
+              timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
             })
             .eq("id", providerProfileId);
 
@@ -168,6 +278,10 @@ const Profile = () => {
 
             if (catError) throw catError;
           }
+
+          await saveWorkingHours(providerProfileId);
+          await saveServiceAreas(providerProfileId);
+          await saveBases(providerProfileId);
         } else {
           // Create new provider profile
           const { data: newProfile, error: providerError } = await supabase
@@ -175,7 +289,9 @@ const Profile = () => {
             .insert({
               user_id: user!.id,
               service_area_radius_km: parseFloat(serviceRadiusKm),
+              max_active_jobs: parseInt(maxActiveJobs, 10),
               is_available: isAvailable,
+              timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
             })
             .select()
             .single();
@@ -194,6 +310,13 @@ const Profile = () => {
 
             if (catError) throw catError;
           }
+
+          if (newProfile) {
+            setProviderProfileId(newProfile.id);
+            await saveWorkingHours(newProfile.id);
+            await saveServiceAreas(newProfile.id);
+            await saveBases(newProfile.id);
+          }
         }
       }
 
@@ -274,6 +397,10 @@ const Profile = () => {
                       setLocationLat(lat.toString());
                       setLocationLng(lng.toString());
                     }}
+                    serviceAreas={serviceAreas}
+                    onServiceAreasChange={setServiceAreas}
+                    bases={bases}
+                    onBasesChange={setBases}
                   />
                 ) : (
                   <LocationPicker
@@ -298,7 +425,7 @@ const Profile = () => {
                     
                     <div className="space-y-4">
                       <div className="space-y-2">
-                        <Label htmlFor="radius">Service Area Radius (km)</Label>
+                        <Label htmlFor="radius">Default Service Radius (km)</Label>
                         <Input
                           id="radius"
                           type="number"
@@ -306,6 +433,32 @@ const Profile = () => {
                           value={serviceRadiusKm}
                           onChange={(e) => setServiceRadiusKm(e.target.value)}
                         />
+                        <p className="text-xs text-muted-foreground">
+                          Used for new bases, and around your location while you have none
+                        </p>
+                      </div>
+
+                      <div className="space-y-3">
+                        <Label>Service Bases</Label>
+                        <ProviderLocationsEditor value={bases} onChange={setBases} />
+                        <p className="text-xs text-muted-foreground">
+                          Jobs are matched from whichever base is closest
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="max-active-jobs">Maximum Concurrent Jobs</Label>
+                        <Input
+                          id="max-active-jobs"
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={maxActiveJobs}
+                          onChange={(e) => setMaxActiveJobs(e.target.value)}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          You won't be offered new jobs while you have this many open
+                        </p>
                       </div>
 
                       <div className="flex items-center space-x-2">
@@ -319,6 +472,15 @@ const Profile = () => {
                         </Label>
                       </div>
 
+                      <div className="space-y-3">
+                        <Label>Working Hours</Label>
+                        <WorkingHoursEditor value={workingHours} onChange={setWorkingHours} />
+                        <p className="text-xs text-muted-foreground">
+                          You're only offered jobs during these hours. Leave every day off to get
+                          offers whenever you're available.
+                        </p>
+                      </div>
+
                       <div className="space-y-3">
                         <Label>Service Categories</Label>
                         <div className="grid gap-2">
@@ -347,6 +509,12 @@ const Profile = () => {
             </form>
           </CardContent>
         </Card>
+
+        {userRole === "provider" && providerProfileId && (
+          <div className="mt-6">
+            <TimeOffManager providerProfileId={providerProfileId} />
+          </div>
+        )}
       </main>
     </div>
   );
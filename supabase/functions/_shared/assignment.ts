@@ -0,0 +1,219 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { findProvidersForRequest } from './matching.ts'
+import type {
+  CandidateEvaluation,
+  MatchableRequest,
+  MatchingOptions,
+  ScoredCandidate,
+} from './matching.ts'
+import { notifyAdmins } from './notifications.ts'
+
+export type OfferConflictReason =
+  | 'request_not_found'
+  | 'request_not_pending'
+  | 'provider_unavailable'
+  | 'provider_off_shift'
+  | 'provider_at_capacity'
+  | 'already_offered';
+
+export type OfferResult =
+  | { status: 'offered'; offer_id: string; provider_id: string }
+  | { status: 'conflict'; reason: OfferConflictReason; current_status?: string };
+
+// Offer a request to the best ranked provider. The request only becomes
+// assigned once the provider accepts (see respond_to_offer). The rest of the
+// ranking is queued so declined or expired offers cascade to the next provider
+// (see advance_offer).
+//
+// The write happens in the offer_request database function, which locks the
+// request and provider rows. If the provider was taken in the meantime the
+// next ranked provider is tried; if the request itself was taken the conflict
+// is returned to the caller.
+export async function offerRequest(
+  supabase: SupabaseClient,
+  request: MatchableRequest,
+  rankedProviders: ScoredCandidate[]
+): Promise<OfferResult> {
+  let result: OfferResult = { status: 'conflict', reason: 'provider_unavailable' };
+
+  for (let i = 0; i < rankedProviders.length; i++) {
+    const provider = rankedProviders[i];
+
+    console.log('Offering to provider:', {
+      requestId: request.id,
+      providerId: provider.providerId,
+      name: provider.providerName,
+      distance: provider.distanceKm.toFixed(2),
+    });
+
+    const { data, error } = await supabase.rpc('offer_request', {
+      _request_id: request.id,
+      _provider_id: provider.providerId,
+      _fallback_provider_ids: rankedProviders.slice(i + 1).map((c) => c.providerId),
+    });
+
+    if (error) {
+      console.error('Error offering request:', error);
+      throw new Error('Failed to offer request');
+    }
+
+    // Note: Status history is automatically logged by database trigger
+    result = data as OfferResult;
+
+    if (result.status === 'offered') {
+      return result;
+    }
+
+    console.log('Offer conflict:', { requestId: request.id, reason: result.reason });
+
+    if (result.reason === 'request_not_found' || result.reason === 'request_not_pending') {
+      return result;
+    }
+  }
+
+  return result;
+}
+
+// Where a matching run came from, recorded on assignment_attempts
+export type AssignmentTrigger =
+  | 'assign-provider'
+  | 'assign-pending-requests'
+  | 'sweep-pending-requests';
+
+export type AssignmentOutcome =
+  | { status: 'offered'; provider: ScoredCandidate; offerId: string }
+  | { status: 'no_candidates' }
+  | { status: 'conflict'; reason: OfferConflictReason; currentStatus?: string };
+
+interface AssignmentAttempt {
+  requestId: string;
+  triggerSource: AssignmentTrigger;
+  triggeredBy: string | null;
+  candidates: CandidateEvaluation[];
+  chosenProviderId: string | null;
+  outcome: 'offered' | 'no_candidates' | 'conflict' | 'error';
+  failureReason: string | null;
+  radiusExtensionKm: number;
+}
+
+// The sweeper re-runs every pending request every few minutes. A sweep that
+// still finds nobody, for the same reason and at the same radius as the last
+// attempt, adds nothing to the audit trail.
+async function repeatsLastAttempt(supabase: SupabaseClient, attempt: AssignmentAttempt): Promise<boolean> {
+  if (attempt.triggerSource !== 'sweep-pending-requests' || attempt.outcome !== 'no_candidates') {
+    return false;
+  }
+
+  const { data: last, error } = await supabase
+    .from('assignment_attempts')
+    .select('outcome, failure_reason, radius_extension_km')
+    .eq('request_id', attempt.requestId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading last assignment attempt:', error);
+    return false;
+  }
+
+  return last !== null
+    && last.outcome === attempt.outcome
+    && last.failure_reason === attempt.failureReason
+    && Number(last.radius_extension_km) === attempt.radiusExtensionKm;
+}
+
+// Auditing must never break assignment, so failures are only logged
+async function recordAssignmentAttempt(supabase: SupabaseClient, attempt: AssignmentAttempt) {
+  if (await repeatsLastAttempt(supabase, attempt)) return;
+
+  const { error } = await supabase.from('assignment_attempts').insert({
+    request_id: attempt.requestId,
+    trigger_source: attempt.triggerSource,
+    triggered_by: attempt.triggeredBy,
+    candidates: attempt.candidates,
+    chosen_provider_id: attempt.chosenProviderId,
+    outcome: attempt.outcome,
+    failure_reason: attempt.failureReason,
+    radius_extension_km: attempt.radiusExtensionKm,
+  });
+
+  if (error) {
+    console.error('Error recording assignment attempt:', error);
+  }
+}
+
+// Run the matching engine for a request and offer it to the best provider,
+// recording the run on assignment_attempts whatever the outcome (unchanged
+// sweeper runs excepted).
+export async function assignRequest(
+  supabase: SupabaseClient,
+  request: MatchableRequest,
+  trigger: { source: AssignmentTrigger; userId?: string | null },
+  options: MatchingOptions = {}
+): Promise<AssignmentOutcome> {
+  const { ranked, evaluations } = await findProvidersForRequest(supabase, request, options);
+
+  const attempt: AssignmentAttempt = {
+    requestId: request.id,
+    triggerSource: trigger.source,
+    triggeredBy: trigger.userId ?? null,
+    candidates: evaluations,
+    chosenProviderId: null,
+    outcome: 'no_candidates',
+    failureReason: null,
+    radiusExtensionKm: options.radiusExtensionKm ?? 0,
+  };
+
+  if (ranked.length === 0) {
+    await recordAssignmentAttempt(supabase, {
+      ...attempt,
+      failureReason: evaluations.length === 0 ? 'no_providers_nearby' : 'no_eligible_providers',
+    });
+    return { status: 'no_candidates' };
+  }
+
+  let result: OfferResult;
+  try {
+    result = await offerRequest(supabase, request, ranked);
+  } catch (error) {
+    await recordAssignmentAttempt(supabase, {
+      ...attempt,
+      outcome: 'error',
+      failureReason: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+
+  if (result.status === 'conflict') {
+    await recordAssignmentAttempt(supabase, {
+      ...attempt,
+      outcome: 'conflict',
+      failureReason: result.reason,
+    });
+    return { status: 'conflict', reason: result.reason, currentStatus: result.current_status };
+  }
+
+  const { provider_id: providerId, offer_id: offerId } = result;
+
+  await recordAssignmentAttempt(supabase, {
+    ...attempt,
+    chosenProviderId: providerId,
+    outcome: 'offered',
+  });
+
+  return {
+    status: 'offered',
+    provider: ranked.find((p) => p.providerId === providerId)!,
+    offerId,
+  };
+}
+
+export async function notifyAssignmentFailed(supabase: SupabaseClient, requestId: string) {
+  await notifyAdmins(supabase, {
+    title: 'Assignment Failed',
+    message: `No available provider found for request ${requestId}`,
+    type: 'warning',
+    requestId,
+  });
+}
@@ -0,0 +1,151 @@
+import { assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import {
+  authorizeAssignProvider,
+  authorizeRequestAccess,
+  type Caller,
+  getCaller,
+  HttpError,
+  parseBearerToken,
+  requireInternal,
+  resolveProviderUserId,
+} from './auth.ts'
+
+const SERVICE_ROLE_KEY = 'service-role-key';
+
+const internal: Caller = { kind: 'internal' };
+const admin: Caller = { kind: 'user', userId: 'admin-1', isAdmin: true };
+const resident: Caller = { kind: 'user', userId: 'resident-1', isAdmin: false };
+const provider: Caller = { kind: 'user', userId: 'provider-1', isAdmin: false };
+
+const ownRequest = { resident_id: 'resident-1' };
+const otherRequest = { resident_id: 'resident-2' };
+
+// Just enough of the client for getCaller: one valid token and its roles
+function fakeClient(users: Record<string, { id: string; roles: string[] }>) {
+  return {
+    auth: {
+      getUser: (token: string) => {
+        const user = users[token];
+        return Promise.resolve(
+          user
+            ? { data: { user: { id: user.id } }, error: null }
+            : { data: { user: null }, error: { message: 'invalid JWT' } }
+        );
+      },
+    },
+    from: () => ({
+      select: () => ({
+        eq: (_column: string, userId: string) => {
+          const user = Object.values(users).find((u) => u.id === userId);
+          return Promise.resolve({
+            data: (user?.roles ?? []).map((role) => ({ role })),
+            error: null,
+          });
+        },
+      }),
+    }),
+  } as unknown as SupabaseClient;
+}
+
+function requestWith(token?: string): Request {
+  return new Request('http://localhost/functions/v1/test', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+function assertStatus(fn: () => unknown, status: number) {
+  const error = assertThrows(fn, HttpError);
+  assertEquals(error.status, status);
+}
+
+const client = fakeClient({
+  'resident-token': { id: 'resident-1', roles: ['resident'] },
+  'admin-token': { id: 'admin-1', roles: ['admin'] },
+});
+
+Deno.test('parseBearerToken reads the token after the scheme', () => {
+  assertEquals(parseBearerToken('Bearer abc'), 'abc');
+  assertEquals(parseBearerToken('bearer  abc '), 'abc');
+  assertEquals(parseBearerToken('Basic abc'), null);
+  assertEquals(parseBearerToken(null), null);
+});
+
+Deno.test('getCaller rejects a missing token', async () => {
+  const error = await assertRejects(
+    () => getCaller(requestWith(), client, SERVICE_ROLE_KEY),
+    HttpError
+  );
+  assertEquals(error.status, 401);
+});
+
+Deno.test('getCaller rejects an invalid token', async () => {
+  const error = await assertRejects(
+    () => getCaller(requestWith('forged-token'), client, SERVICE_ROLE_KEY),
+    HttpError
+  );
+  assertEquals(error.status, 401);
+});
+
+Deno.test('getCaller treats the service role key as internal', async () => {
+  assertEquals(await getCaller(requestWith(SERVICE_ROLE_KEY), client, SERVICE_ROLE_KEY), internal);
+});
+
+Deno.test('getCaller resolves users and their admin role', async () => {
+  assertEquals(
+    await getCaller(requestWith('resident-token'), client, SERVICE_ROLE_KEY),
+    { kind: 'user', userId: 'resident-1', isAdmin: false }
+  );
+  assertEquals(
+    await getCaller(requestWith('admin-token'), client, SERVICE_ROLE_KEY),
+    { kind: 'user', userId: 'admin-1', isAdmin: true }
+  );
+});
+
+Deno.test('authorizeAssignProvider limits dry runs to admins and internal callers', () => {
+  authorizeAssignProvider(internal, true);
+  authorizeAssignProvider(admin, true);
+  assertStatus(() => authorizeAssignProvider(resident, true), 403);
+  assertStatus(() => authorizeAssignProvider(provider, true), 403);
+});
+
+Deno.test('authorizeAssignProvider lets anyone through for a real run', () => {
+  authorizeAssignProvider(resident, false);
+  authorizeAssignProvider(provider, false);
+});
+
+Deno.test('authorizeRequestAccess allows the resident on their own request', () => {
+  authorizeRequestAccess(resident, ownRequest);
+});
+
+Deno.test('authorizeRequestAccess rejects a resident on someone else\'s request', () => {
+  assertStatus(() => authorizeRequestAccess(resident, otherRequest), 403);
+});
+
+Deno.test('authorizeRequestAccess rejects providers', () => {
+  assertStatus(() => authorizeRequestAccess(provider, ownRequest), 403);
+});
+
+Deno.test('authorizeRequestAccess allows admins and internal callers on any request', () => {
+  authorizeRequestAccess(admin, otherRequest);
+  authorizeRequestAccess(internal, otherRequest);
+});
+
+Deno.test('resolveProviderUserId takes the provider from the token for users', () => {
+  assertEquals(resolveProviderUserId(provider), 'provider-1');
+  assertEquals(resolveProviderUserId(provider, 'provider-1'), 'provider-1');
+  assertStatus(() => resolveProviderUserId(provider, 'provider-2'), 403);
+});
+
+Deno.test('resolveProviderUserId requires internal callers to name the provider', () => {
+  assertEquals(resolveProviderUserId(internal, 'provider-2'), 'provider-2');
+  assertStatus(() => resolveProviderUserId(internal), 400);
+  assertStatus(() => resolveProviderUserId(internal, null), 400);
+});
+
+Deno.test('requireInternal rejects every user, admins included', () => {
+  requireInternal(internal);
+  assertStatus(() => requireInternal(admin), 403);
+  assertStatus(() => requireInternal(resident), 403);
+});
@@ -0,0 +1,105 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+
+// Error carrying the HTTP status the function should respond with
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Who is calling a function. Internal callers (pg_cron jobs, database
+// triggers, other functions) authenticate with the service role key.
+export type Caller =
+  | { kind: 'internal' }
+  | { kind: 'user'; userId: string; isAdmin: boolean };
+
+export function parseBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+export async function getCaller(
+  req: Request,
+  supabase: SupabaseClient,
+  serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+): Promise<Caller> {
+  const token = parseBearerToken(req.headers.get('Authorization'));
+
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization token');
+  }
+
+  if (serviceRoleKey && token === serviceRoleKey) {
+    return { kind: 'internal' };
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid or expired token');
+  }
+
+  const { data: roles, error: rolesError } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id);
+
+  if (rolesError) {
+    console.error('Error fetching caller roles:', rolesError);
+    throw new HttpError(500, 'Failed to verify caller');
+  }
+
+  return {
+    kind: 'user',
+    userId: user.id,
+    isAdmin: (roles ?? []).some((r) => r.role === 'admin'),
+  };
+}
+
+export function callerUserId(caller: Caller): string | null {
+  return caller.kind === 'user' ? caller.userId : null;
+}
+
+export function requireInternal(caller: Caller) {
+  if (caller.kind !== 'internal') {
+    throw new HttpError(403, 'This function can only be called internally');
+  }
+}
+
+// assign-provider: dry runs expose other providers' details, so they are
+// limited to admins and internal callers. Checked before the request is loaded.
+export function authorizeAssignProvider(caller: Caller, dryRun: boolean) {
+  if (caller.kind === 'internal' || caller.isAdmin) return;
+
+  if (dryRun) {
+    throw new HttpError(403, 'Only admins can explain assignments');
+  }
+}
+
+// The request's resident may trigger assignment for their own request; admins
+// and internal triggers for any.
+export function authorizeRequestAccess(caller: Caller, request: { resident_id: string }) {
+  if (caller.kind === 'internal' || caller.isAdmin) return;
+
+  if (caller.userId !== request.resident_id) {
+    throw new HttpError(403, 'Not allowed to assign this request');
+  }
+}
+
+// assign-pending-requests: users can only run it for themselves, so the
+// provider comes from the token. Internal triggers name the provider's user.
+export function resolveProviderUserId(caller: Caller, requestedUserId?: string | null): string {
+  if (caller.kind === 'internal') {
+    if (!requestedUserId) {
+      throw new HttpError(400, 'userId is required');
+    }
+    return requestedUserId;
+  }
+
+  if (requestedUserId && requestedUserId !== caller.userId) {
+    throw new HttpError(403, 'Cannot run assignment for another provider');
+  }
+
+  return caller.userId;
+}
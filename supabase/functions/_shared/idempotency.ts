@@ -0,0 +1,104 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { HttpError } from './auth.ts'
+
+export interface StoredResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+export interface IdempotencyScope {
+  functionName: string;
+  key: string;
+  userId: string | null;
+  requestId: string;
+}
+
+export type IdempotencyClaim =
+  | { kind: 'claimed' }
+  | { kind: 'replay'; response: StoredResponse };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isValidIdempotencyKey(key: unknown): key is string {
+  return typeof key === 'string' && UUID_PATTERN.test(key);
+}
+
+// Reserve the key for this call, or return the response of the call that
+// already used it. A key is tied to the request it was first used for.
+export async function claimIdempotencyKey(
+  supabase: SupabaseClient,
+  scope: IdempotencyScope
+): Promise<IdempotencyClaim> {
+  const { error } = await supabase.from('idempotency_keys').insert({
+    function_name: scope.functionName,
+    key: scope.key,
+    user_id: scope.userId,
+    request_id: scope.requestId,
+  });
+
+  if (!error) {
+    return { kind: 'claimed' };
+  }
+
+  // 23505 = unique_violation: the key has been used before
+  if (error.code !== '23505') {
+    console.error('Error claiming idempotency key:', error);
+    throw new HttpError(500, 'Failed to record idempotency key');
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('idempotency_keys')
+    .select('user_id, request_id, response_status, response')
+    .eq('function_name', scope.functionName)
+    .eq('key', scope.key)
+    .single();
+
+  if (fetchError || !existing) {
+    console.error('Error loading idempotency key:', fetchError);
+    throw new HttpError(500, 'Failed to load idempotency key');
+  }
+
+  if (existing.request_id !== scope.requestId || existing.user_id !== scope.userId) {
+    throw new HttpError(422, 'Idempotency key was already used for a different request');
+  }
+
+  if (existing.response_status === null) {
+    throw new HttpError(409, 'A call with this idempotency key is still in progress');
+  }
+
+  return {
+    kind: 'replay',
+    response: { status: existing.response_status, body: existing.response },
+  };
+}
+
+export async function saveIdempotentResponse(
+  supabase: SupabaseClient,
+  scope: IdempotencyScope,
+  response: StoredResponse
+) {
+  const { error } = await supabase
+    .from('idempotency_keys')
+    .update({ response_status: response.status, response: response.body })
+    .eq('function_name', scope.functionName)
+    .eq('key', scope.key);
+
+  if (error) {
+    console.error('Error saving idempotent response:', error);
+  }
+}
+
+// Called when the call failed before producing a result, so a retry with
+// the same key runs again instead of waiting on a response that never comes
+export async function releaseIdempotencyKey(supabase: SupabaseClient, scope: IdempotencyScope) {
+  const { error } = await supabase
+    .from('idempotency_keys')
+    .delete()
+    .eq('function_name', scope.functionName)
+    .eq('key', scope.key)
+    .is('response_status', null);
+
+  if (error) {
+    console.error('Error releasing idempotency key:', error);
+  }
+}
@@ -0,0 +1,316 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+
+export type RequestPriority = 'low' | 'normal' | 'high' | 'emergency';
+
+export interface MatchableRequest {
+  id: string;
+  category_id: string;
+  location_lat: number | string;
+  location_lng: number | string;
+  resident_id: string;
+  priority: RequestPriority;
+}
+
+export interface ProviderCandidate {
+  providerId: string;
+  userId: string;
+  providerName: string;
+  // Closest of the provider's bases, its distance and radius. Providers
+  // without a base are found through their service areas: baseName and
+  // serviceRadiusKm are null and distanceKm is to the nearest area.
+  baseName: string | null;
+  distanceKm: number;
+  serviceRadiusKm: number | null;
+  // Distance to the nearest drawn service area (0 inside), null without areas
+  serviceAreaDistanceKm: number | null;
+  activeJobs: number;
+  maxActiveJobs: number;
+  rating: number | null;
+  lastAssignedAt: string | null;
+}
+
+export interface ScoredCandidate extends ProviderCandidate {
+  score: number;
+  scores: Record<string, number>;
+}
+
+export interface ScoringContext {
+  now: Date;
+}
+
+// A single stage of the scoring pipeline. Scores are normalised to 0..1
+// (higher is better) and combined as a weighted sum.
+export interface Scorer {
+  name: string;
+  weight: number;
+  score: (candidate: ProviderCandidate, context: ScoringContext) => number;
+}
+
+export const distanceScorer: Scorer = {
+  name: 'distance',
+  weight: 0.6,
+  // 1.0 on top of the request, 0.5 at 5 km, tapering off after that
+  score: (candidate) => 1 / (1 + candidate.distanceKm / 5),
+};
+
+export const workloadScorer: Scorer = {
+  name: 'workload',
+  weight: 0.2,
+  // Share of the provider's capacity still free
+  score: (candidate) => 1 - Math.min(candidate.activeJobs / candidate.maxActiveJobs, 1),
+};
+
+export const ratingScorer: Scorer = {
+  name: 'rating',
+  weight: 0.1,
+  // Unrated providers are neither rewarded nor penalised
+  score: (candidate) => (candidate.rating == null ? 0.5 : candidate.rating / 5),
+};
+
+export const recencyScorer: Scorer = {
+  name: 'recency',
+  weight: 0.1,
+  // Favour providers who haven't had a job for a while, saturating at 3 days
+  score: (candidate, { now }) => {
+    if (!candidate.lastAssignedAt) return 1;
+    const hoursSince = (now.getTime() - new Date(candidate.lastAssignedAt).getTime()) / 36e5;
+    return Math.min(Math.max(hoursSince / 72, 0), 1);
+  },
+};
+
+export const defaultScorers: Scorer[] = [
+  distanceScorer,
+  workloadScorer,
+  ratingScorer,
+  recencyScorer,
+];
+
+export function scoreCandidate(
+  candidate: ProviderCandidate,
+  scorers: Scorer[],
+  context: ScoringContext
+): ScoredCandidate {
+  const scores: Record<string, number> = {};
+  let total = 0;
+
+  for (const scorer of scorers) {
+    const value = scorer.score(candidate, context);
+    scores[scorer.name] = value;
+    total += value * scorer.weight;
+  }
+
+  return { ...candidate, score: total, scores };
+}
+
+// Best candidate first. Equal scores go to the provider with less open work,
+// then to the nearest one.
+export function rankCandidates(
+  candidates: ProviderCandidate[],
+  scorers: Scorer[] = defaultScorers,
+  context: ScoringContext = { now: new Date() }
+): ScoredCandidate[] {
+  return candidates
+    .map((candidate) => scoreCandidate(candidate, scorers, context))
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.activeJobs - b.activeJobs ||
+      a.distanceKm - b.distanceKm
+    );
+}
+
+// Row shape returned by the find_provider_candidates database function
+interface CandidateRow {
+  provider_id: string;
+  user_id: string;
+  provider_name: string;
+  is_available: boolean;
+  on_shift: boolean;
+  // The nearest base's columns are null for providers without a base
+  base_name: string | null;
+  service_radius_km: number | string | null;
+  distance_km: number | null;
+  outside_radius_km: number | null;
+  service_area_distance_km: number | null;
+  rating: number | string | null;
+  active_jobs: number;
+  max_active_jobs: number;
+  last_assigned_at: string | null;
+  previously_offered: boolean;
+  booked: boolean;
+}
+
+// Why a provider found by the spatial lookup can't take the request
+export type RejectionReason =
+  | 'unavailable'
+  | 'off_shift'
+  | 'previously_offered'
+  | 'booked'
+  | 'outside_service_area'
+  | 'at_capacity';
+
+// One provider as seen by the matching engine, eligible or not. Returned by
+// dry runs so support staff can see why a request stayed pending.
+export interface CandidateEvaluation extends ProviderCandidate {
+  isAvailable: boolean;
+  isOnShift: boolean;
+  // Did the previous visit of the request's recurring series
+  isPreviousProvider: boolean;
+  rejectionReason: RejectionReason | null;
+  score: number | null;
+  scores: Record<string, number> | null;
+  rank: number | null;
+}
+
+export interface MatchingOptions {
+  scorers?: Scorer[];
+  context?: ScoringContext;
+  // Accept providers this far beyond their own service radius
+  radiusExtensionKm?: number;
+}
+
+export interface MatchingResult {
+  ranked: ScoredCandidate[];
+  evaluations: CandidateEvaluation[];
+}
+
+function toCandidate(row: CandidateRow): ProviderCandidate {
+  return {
+    providerId: row.provider_id,
+    userId: row.user_id,
+    providerName: row.provider_name,
+    baseName: row.base_name,
+    distanceKm: row.distance_km ?? row.service_area_distance_km ?? 0,
+    serviceRadiusKm: row.service_radius_km != null ? Number(row.service_radius_km) : null,
+    serviceAreaDistanceKm: row.service_area_distance_km,
+    activeJobs: row.active_jobs,
+    maxActiveJobs: row.max_active_jobs,
+    rating: row.rating != null ? Number(row.rating) : null,
+    lastAssignedAt: row.last_assigned_at,
+  };
+}
+
+// Recurring visits go to whoever did the previous one first when they are
+// eligible; the rest keep their ranking behind them.
+export function preferProvider(ranked: ScoredCandidate[], providerId: string | null): ScoredCandidate[] {
+  const preferred = ranked.find((candidate) => candidate.providerId === providerId);
+  if (!preferred) return ranked;
+  return [preferred, ...ranked.filter((candidate) => candidate !== preferred)];
+}
+
+async function loadPreviousProvider(supabase: SupabaseClient, requestId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('previous_series_provider', { _request_id: requestId });
+
+  // Matching still works without the preference
+  if (error) {
+    console.error('Error fetching previous series provider:', error);
+    return null;
+  }
+
+  return data ?? null;
+}
+
+// Providers who drew service areas cover what's inside them; everyone else
+// covers the radius around each of their bases
+function coversRequest(row: CandidateRow, radiusExtensionKm: number): boolean {
+  if (row.service_area_distance_km != null) {
+    return row.service_area_distance_km <= radiusExtensionKm;
+  }
+  return row.outside_radius_km != null && row.outside_radius_km <= radiusExtensionKm;
+}
+
+// Eligibility rules, checked in order. Emergencies can go to any available
+// provider the lookup found (it already searched the emergency radius), so the
+// provider's own service area doesn't apply to them.
+function getRejectionReason(
+  row: CandidateRow,
+  request: MatchableRequest,
+  radiusExtensionKm: number
+): RejectionReason | null {
+  if (!row.is_available) return 'unavailable';
+  if (!row.on_shift) return 'off_shift';
+  if (row.previously_offered) return 'previously_offered';
+  if (row.booked) return 'booked';
+  if (request.priority !== 'emergency' && !coversRequest(row, radiusExtensionKm)) {
+    return 'outside_service_area';
+  }
+  if (row.active_jobs >= row.max_active_jobs) return 'at_capacity';
+  return null;
+}
+
+// Load every provider in the request's category within the search radius and
+// rank the eligible ones: available, on shift, covering the request with a
+// service area or a base radius (any distance for emergencies), with spare
+// capacity, not offered the request before and not booked across every
+// window the resident proposed. For recurring visits the provider of the
+// previous visit is ranked first.
+//
+// The spatial lookup runs in the database (PostGIS, GiST-indexed); the
+// eligibility rules stay here.
+export async function evaluateCandidates(
+  supabase: SupabaseClient,
+  request: MatchableRequest,
+  { scorers = defaultScorers, context, radiusExtensionKm = 0 }: MatchingOptions = {}
+): Promise<MatchingResult> {
+  const { data, error } = await supabase.rpc('find_provider_candidates', {
+    _request_id: request.id,
+    _radius_extension_km: radiusExtensionKm,
+  });
+
+  if (error) {
+    console.error('Error fetching provider candidates:', error);
+    throw new Error('Failed to fetch providers');
+  }
+
+  const rows = (data ?? []) as CandidateRow[];
+  const previousProviderId = await loadPreviousProvider(supabase, request.id);
+  const eligible = rows
+    .filter((row) => getRejectionReason(row, request, radiusExtensionKm) === null)
+    .map(toCandidate);
+  const ranked = preferProvider(rankCandidates(eligible, scorers, context), previousProviderId);
+
+  const evaluations: CandidateEvaluation[] = [
+    ...ranked.map((candidate, index) => ({
+      ...candidate,
+      isAvailable: true,
+      isOnShift: true,
+      isPreviousProvider: candidate.providerId === previousProviderId,
+      rejectionReason: null,
+      rank: index + 1,
+    })),
+    ...rows
+      .filter((row) => getRejectionReason(row, request, radiusExtensionKm) !== null)
+      .map((row) => ({
+        ...toCandidate(row),
+        isAvailable: row.is_available,
+        isOnShift: row.on_shift,
+        isPreviousProvider: row.provider_id === previousProviderId,
+        rejectionReason: getRejectionReason(row, request, radiusExtensionKm),
+        score: null,
+        scores: null,
+        rank: null,
+      })),
+  ];
+
+  return { ranked, evaluations };
+}
+
+// Single entry point used by every assignment path so they all make the
+// same decision for the same request.
+export async function findProvidersForRequest(
+  supabase: SupabaseClient,
+  request: MatchableRequest,
+  options: MatchingOptions = {}
+): Promise<MatchingResult> {
+  const result = await evaluateCandidates(supabase, request, options);
+
+  console.log('Ranked providers for request:', {
+    requestId: request.id,
+    candidates: result.ranked.map((c) => ({
+      name: c.providerName,
+      distance: c.distanceKm.toFixed(2),
+      score: c.score.toFixed(3),
+    })),
+  });
+
+  return result;
+}
@@ -0,0 +1,51 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+
+// Must match the CHECK constraint on public.notifications.type
+export type NotificationType = 'info' | 'success' | 'warning' | 'error';
+
+export interface NotificationInput {
+  userId: string;
+  title: string;
+  message: string;
+  type: NotificationType;
+  requestId?: string;
+}
+
+export async function notify(supabase: SupabaseClient, notifications: NotificationInput[]) {
+  if (notifications.length === 0) return;
+
+  const { error } = await supabase.from('notifications').insert(
+    notifications.map((n) => ({
+      user_id: n.userId,
+      title: n.title,
+      message: n.message,
+      type: n.type,
+      related_request_id: n.requestId ?? null,
+    }))
+  );
+
+  if (error) {
+    console.error('Error creating notifications:', error);
+  }
+}
+
+// Send the same notification to every admin user
+export async function notifyAdmins(
+  supabase: SupabaseClient,
+  notification: Omit<NotificationInput, 'userId'>
+) {
+  const { data: adminUsers, error } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .eq('role', 'admin');
+
+  if (error) {
+    console.error('Error fetching admin users:', error);
+    return;
+  }
+
+  await notify(
+    supabase,
+    (adminUsers ?? []).map((admin) => ({ ...notification, userId: admin.user_id }))
+  );
+}
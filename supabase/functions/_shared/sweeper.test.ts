@@ -0,0 +1,137 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  type Clock,
+  DEFAULT_SWEEPER_SETTINGS,
+  pendingSince,
+  planSweep,
+  radiusExtensionFor,
+  requestAgeMinutes,
+  shouldEscalate,
+  type SweepableRequest,
+} from './sweeper.ts'
+
+const NOW = new Date('2025-10-20T12:00:00Z');
+const fixedClock: Clock = { now: () => NOW };
+
+const steps = DEFAULT_SWEEPER_SETTINGS.radiusSteps;
+const settings = DEFAULT_SWEEPER_SETTINGS;
+
+// A request created the given number of minutes before NOW
+function requestAged(minutes: number, sla_escalated_at: string | null = null): SweepableRequest {
+  return {
+    id: `request-${minutes}`,
+    created_at: new Date(NOW.getTime() - minutes * 60000).toISOString(),
+    sla_escalated_at,
+  };
+}
+
+Deno.test('requestAgeMinutes never goes negative', () => {
+  assertEquals(requestAgeMinutes(requestAged(45).created_at, NOW), 45);
+  assertEquals(requestAgeMinutes('2025-10-20T12:05:00Z', NOW), 0);
+});
+
+// A request created days before its only proposed window
+function requestWithWindowIn(minutes: number): SweepableRequest {
+  return {
+    ...requestAged(3 * 24 * 60),
+    request_time_windows: [
+      { starts_at: new Date(NOW.getTime() + (minutes + 60) * 60000).toISOString() },
+      { starts_at: new Date(NOW.getTime() + minutes * 60000).toISOString() },
+    ],
+  };
+}
+
+Deno.test('pendingSince starts at the earliest window for requests created ahead', () => {
+  assertEquals(pendingSince(requestWithWindowIn(120)), '2025-10-20T14:00:00.000Z');
+  assertEquals(pendingSince(requestWithWindowIn(-30)), '2025-10-20T11:30:00.000Z');
+});
+
+Deno.test('pendingSince prefers the confirmed appointment over the windows', () => {
+  const scheduled = { ...requestWithWindowIn(120), scheduled_start: '2025-10-20T15:00:00Z' };
+  assertEquals(pendingSince(scheduled), '2025-10-20T15:00:00.000Z');
+});
+
+Deno.test('pendingSince keeps created_at without a later visit', () => {
+  assertEquals(pendingSince(requestAged(45)), requestAged(45).created_at);
+
+  const windowBeforeCreation = {
+    ...requestAged(45),
+    request_time_windows: [{ starts_at: '2025-10-20T09:00:00Z' }],
+  };
+  assertEquals(pendingSince(windowBeforeCreation), windowBeforeCreation.created_at);
+});
+
+Deno.test('radiusExtensionFor applies the last step reached', () => {
+  assertEquals(radiusExtensionFor(0, steps), 0);
+  assertEquals(radiusExtensionFor(29.9, steps), 0);
+  assertEquals(radiusExtensionFor(30, steps), 5);
+  assertEquals(radiusExtensionFor(119.9, steps), 5);
+  assertEquals(radiusExtensionFor(120, steps), 15);
+  assertEquals(radiusExtensionFor(10_000, steps), 15);
+});
+
+Deno.test('radiusExtensionFor does not depend on step order', () => {
+  assertEquals(radiusExtensionFor(150, [...steps].reverse()), 15);
+  assertEquals(radiusExtensionFor(150, []), 0);
+});
+
+Deno.test('shouldEscalate fires once the SLA has passed', () => {
+  assertEquals(shouldEscalate(requestAged(239), 239, settings), false);
+  assertEquals(shouldEscalate(requestAged(240), 240, settings), true);
+  assertEquals(shouldEscalate(requestAged(600), 600, settings), true);
+});
+
+Deno.test('shouldEscalate skips requests already escalated', () => {
+  const escalated = requestAged(300, '2025-10-20T11:00:00Z');
+  assertEquals(shouldEscalate(escalated, 300, settings), false);
+});
+
+Deno.test('planSweep measures age against the injected clock', () => {
+  const decisions = planSweep(
+    [
+      requestAged(10),
+      requestAged(30),
+      requestAged(120),
+      requestAged(240),
+      requestAged(300, '2025-10-20T11:00:00Z'),
+    ],
+    settings,
+    fixedClock
+  );
+
+  assertEquals(decisions, [
+    { requestId: 'request-10', ageMinutes: 10, radiusExtensionKm: 0, escalate: false },
+    { requestId: 'request-30', ageMinutes: 30, radiusExtensionKm: 5, escalate: false },
+    { requestId: 'request-120', ageMinutes: 120, radiusExtensionKm: 15, escalate: false },
+    { requestId: 'request-240', ageMinutes: 240, radiusExtensionKm: 15, escalate: true },
+    { requestId: 'request-300', ageMinutes: 300, radiusExtensionKm: 15, escalate: false },
+  ]);
+});
+
+Deno.test('planSweep follows custom settings', () => {
+  const [decision] = planSweep(
+    [requestAged(60)],
+    { radiusSteps: [{ afterMinutes: 15, extraKm: 2 }], slaMinutes: 60 },
+    fixedClock
+  );
+
+  assertEquals(decision.radiusExtensionKm, 2);
+  assertEquals(decision.escalate, true);
+});
+
+Deno.test('planSweep does not age requests before their visit starts', () => {
+  const [upcoming, started] = planSweep(
+    [requestWithWindowIn(120), requestWithWindowIn(-30)],
+    settings,
+    fixedClock
+  );
+
+  assertEquals(
+    [upcoming.ageMinutes, upcoming.radiusExtensionKm, upcoming.escalate],
+    [0, 0, false]
+  );
+  assertEquals(
+    [started.ageMinutes, started.radiusExtensionKm, started.escalate],
+    [30, 5, false]
+  );
+});
@@ -0,0 +1,130 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+
+// Retry rules for the pending request sweeper. Everything time-based reads the
+// injected clock, so the rules can be exercised with a fixed clock.
+export interface Clock {
+  now: () => Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export interface RadiusStep {
+  afterMinutes: number;
+  extraKm: number;
+}
+
+export interface SweeperSettings {
+  radiusSteps: RadiusStep[];
+  slaMinutes: number;
+}
+
+export interface SweepableRequest {
+  id: string;
+  created_at: string;
+  sla_escalated_at: string | null;
+  // When the visit is due: the confirmed appointment, else the windows the
+  // resident proposed
+  scheduled_start?: string | null;
+  request_time_windows?: { starts_at: string }[] | null;
+}
+
+export interface SweepDecision {
+  requestId: string;
+  ageMinutes: number;
+  radiusExtensionKm: number;
+  escalate: boolean;
+}
+
+export const DEFAULT_SWEEPER_SETTINGS: SweeperSettings = {
+  radiusSteps: [
+    { afterMinutes: 30, extraKm: 5 },
+    { afterMinutes: 120, extraKm: 15 },
+  ],
+  slaMinutes: 240,
+};
+
+export function requestAgeMinutes(createdAt: string, now: Date): number {
+  return Math.max((now.getTime() - new Date(createdAt).getTime()) / 60000, 0);
+}
+
+// When the request started waiting for a provider. Requests created ahead of
+// their visit (recurring ones in particular) only count from the start of the
+// visit, so they don't widen or escalate before anyone could do the job.
+export function pendingSince(request: SweepableRequest): string {
+  const visitStarts = request.scheduled_start
+    ? [request.scheduled_start]
+    : (request.request_time_windows ?? []).map((timeWindow) => timeWindow.starts_at);
+
+  if (visitStarts.length === 0) return request.created_at;
+
+  const visitStart = Math.min(...visitStarts.map((at) => new Date(at).getTime()));
+  return visitStart > new Date(request.created_at).getTime()
+    ? new Date(visitStart).toISOString()
+    : request.created_at;
+}
+
+// Extra radius of the last step the request has reached, 0 before the first
+export function radiusExtensionFor(ageMinutes: number, steps: RadiusStep[]): number {
+  return steps
+    .filter((step) => ageMinutes >= step.afterMinutes)
+    .reduce((extra, step) => Math.max(extra, step.extraKm), 0);
+}
+
+// Admins are alerted once per request, the first sweep after the SLA passes
+export function shouldEscalate(
+  request: SweepableRequest,
+  ageMinutes: number,
+  settings: SweeperSettings
+): boolean {
+  return request.sla_escalated_at === null && ageMinutes >= settings.slaMinutes;
+}
+
+export function planSweep(
+  requests: SweepableRequest[],
+  settings: SweeperSettings,
+  clock: Clock = systemClock
+): SweepDecision[] {
+  const now = clock.now();
+
+  return requests.map((request) => {
+    const ageMinutes = requestAgeMinutes(pendingSince(request), now);
+    return {
+      requestId: request.id,
+      ageMinutes,
+      radiusExtensionKm: radiusExtensionFor(ageMinutes, settings.radiusSteps),
+      escalate: shouldEscalate(request, ageMinutes, settings),
+    };
+  });
+}
+
+interface RadiusStepSetting {
+  after_minutes: number;
+  extra_km: number;
+}
+
+// Read the sweeper settings from app_settings, falling back to the defaults
+// for anything missing
+export async function loadSweeperSettings(supabase: SupabaseClient): Promise<SweeperSettings> {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('key, value')
+    .in('key', ['sweeper_radius_steps', 'pending_sla_minutes']);
+
+  if (error) {
+    console.error('Error loading sweeper settings:', error);
+    return DEFAULT_SWEEPER_SETTINGS;
+  }
+
+  const values = new Map((data ?? []).map((row) => [row.key, row.value]));
+  const steps = values.get('sweeper_radius_steps') as RadiusStepSetting[] | undefined;
+  const slaMinutes = values.get('pending_sla_minutes');
+
+  return {
+    radiusSteps: steps
+      ? steps.map((step) => ({ afterMinutes: step.after_minutes, extraKm: step.extra_km }))
+      : DEFAULT_SWEEPER_SETTINGS.radiusSteps,
+    slaMinutes: slaMinutes != null ? Number(slaMinutes) : DEFAULT_SWEEPER_SETTINGS.slaMinutes,
+  };
+}
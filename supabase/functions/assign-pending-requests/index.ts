@@ -1,23 +1,11 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { corsHeaders } from '../_shared/cors.ts'
+import { assignRequest } from '../_shared/assignment.ts'
+import { getCaller, HttpError, resolveProviderUserId } from '../_shared/auth.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-// Haversine formula to calculate distance between two points
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (lat2 - lat1) * (Math.PI / 180);
-  const dLon = (lon2 - lon1) * (Math.PI / 180);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * (Math.PI / 180)) *
-    Math.cos(lat2 * (Math.PI / 180)) *
-    Math.sin(dLon / 2) *
-    Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+interface PendingAssignmentRequest {
+  // Only honoured for internal callers; users always act as themselves
+  userId?: string;
 }
 
 Deno.serve(async (req) => {
@@ -31,22 +19,16 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { userId } = await req.json();
-
-    if (!userId) {
-      console.error('Missing userId in request');
-      return new Response(
-        JSON.stringify({ error: 'userId is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const caller = await getCaller(req, supabase);
+    const body = await req.json().catch(() => ({})) as PendingAssignmentRequest;
+    const userId = resolveProviderUserId(caller, body.userId);
 
     console.log(`Checking pending requests for provider user: ${userId}`);
 
     // Get provider profile
     const { data: providerProfile, error: providerError } = await supabase
       .from('provider_profiles')
-      .select('id, user_id, service_area_radius_km, is_available')
+      .select('id, user_id, is_available')
       .eq('user_id', userId)
       .single();
 
@@ -98,13 +80,9 @@ Deno.serve(async (req) => {
     const categoryIds = providerCategories.map(pc => pc.category_id);
     console.log(`Provider categories: ${categoryIds.join(', ')}`);
 
-    // Get all pending requests that match provider's categories
+    // Get pending requests in the provider's categories and service radius (spatial index lookup)
     const { data: pendingRequests, error: requestsError } = await supabase
-      .from('service_requests')
-      .select('id, resident_id, category_id, location_lat, location_lng, description')
-      .eq('status', 'pending')
-      .in('category_id', categoryIds)
-      .is('provider_id', null);
+      .rpc('find_pending_requests_near', { _provider_id: providerProfile.id });
 
     if (requestsError) {
       console.error('Error fetching pending requests:', requestsError);
@@ -117,74 +95,51 @@ Deno.serve(async (req) => {
     if (!pendingRequests || pendingRequests.length === 0) {
       console.log('No pending requests found for this provider');
       return new Response(
-        JSON.stringify({ message: 'No pending requests found', assignedCount: 0 }),
+        JSON.stringify({ message: 'No pending requests found', offeredCount: 0 }),
         { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log(`Found ${pendingRequests.length} pending requests`);
-
-    const providerLat = parseFloat(providerProfileData.location_lat);
-    const providerLng = parseFloat(providerProfileData.location_lng);
-    const serviceRadius = parseFloat(providerProfile.service_area_radius_km?.toString() || '10');
+    console.log(`Found ${pendingRequests.length} pending requests in range`);
 
-    let assignedCount = 0;
+    let offeredCount = 0;
+    let offeredToProvider = 0;
+    let conflictCount = 0;
 
-    // Check each pending request and assign if within range
+    // Re-run matching for every pending request this provider could now serve.
+    // The shared engine decides the winner, so the outcome is the same as if
+    // assign-provider had been called for the request.
     for (const request of pendingRequests) {
-      const requestLat = parseFloat(request.location_lat);
-      const requestLng = parseFloat(request.location_lng);
-
-      const distance = calculateDistance(providerLat, providerLng, requestLat, requestLng);
-      console.log(`Request ${request.id}: distance = ${distance.toFixed(2)} km, service radius = ${serviceRadius} km`);
-
-      if (distance <= serviceRadius) {
-        // Assign this request to the provider
-        const { error: assignError } = await supabase
-          .from('service_requests')
-          .update({
-            provider_id: providerProfile.id,
-            status: 'assigned',
-            assigned_at: new Date().toISOString(),
-          })
-          .eq('id', request.id)
-          .eq('status', 'pending'); // Double-check it's still pending
-
-        if (assignError) {
-          console.error(`Failed to assign request ${request.id}:`, assignError);
+      try {
+        const result = await assignRequest(supabase, request, {
+          source: 'assign-pending-requests',
+          userId,
+        });
+        if (result.status === 'no_candidates') continue;
+        if (result.status === 'conflict') {
+          conflictCount++;
           continue;
         }
 
-        console.log(`Successfully assigned request ${request.id} to provider ${providerProfile.id}`);
-        assignedCount++;
-
-        // Send notification to resident
-        await supabase.from('notifications').insert({
-          user_id: request.resident_id,
-          type: 'request_assigned',
-          title: 'Service Provider Assigned',
-          message: 'A service provider has been assigned to your request.',
-          related_request_id: request.id,
-        });
-
-        // Send notification to provider
-        await supabase.from('notifications').insert({
-          user_id: userId,
-          type: 'new_assignment',
-          title: 'New Service Assignment',
-          message: 'You have been assigned a new service request.',
-          related_request_id: request.id,
-        });
+        console.log(`Offered request ${request.id} to provider ${result.provider.providerId}`);
+        offeredCount++;
+        if (result.provider.providerId === providerProfile.id) {
+          offeredToProvider++;
+        }
+      } catch (assignError) {
+        console.error(`Failed to offer request ${request.id}:`, assignError);
       }
     }
 
-    console.log(`Assigned ${assignedCount} requests to provider ${providerProfile.id}`);
+    console.log(`Offered ${offeredCount} requests, ${offeredToProvider} to provider ${providerProfile.id}`);
 
     return new Response(
       JSON.stringify({
         success: true,
-        message: `Assigned ${assignedCount} pending request(s)`,
-        assignedCount,
+        message: `Offered ${offeredCount} pending request(s)`,
+        offeredCount,
+        offeredToProvider,
+        conflictCount,
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -192,7 +147,10 @@ Deno.serve(async (req) => {
     console.error('Error in assign-pending-requests function:', error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      {
+        status: error instanceof HttpError ? error.status : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
     );
   }
 });
@@ -0,0 +1,115 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { corsHeaders } from '../_shared/cors.ts'
+import { assignRequest } from '../_shared/assignment.ts'
+import { notifyAdmins } from '../_shared/notifications.ts'
+import { getCaller, HttpError, requireInternal } from '../_shared/auth.ts'
+import { loadSweeperSettings, planSweep, systemClock } from '../_shared/sweeper.ts'
+
+// Scheduled every few minutes by pg_cron. Re-runs matching for every pending
+// request, widening the search radius as requests age, and alerts admins
+// once a request has been pending past the SLA.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    requireInternal(await getCaller(req, supabase));
+
+    const clock = systemClock;
+    const settings = await loadSweeperSettings(supabase);
+
+    const { data: pendingRequests, error: requestsError } = await supabase
+      .from('service_requests')
+      .select('id, priority, category_id, location_lat, location_lng, resident_id, created_at, sla_escalated_at, scheduled_start, request_time_windows(starts_at)')
+      .eq('status', 'pending')
+      // Most urgent first, oldest first within the same priority
+      .order('priority', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (requestsError) {
+      console.error('Error fetching pending requests:', requestsError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch pending requests' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const requests = pendingRequests ?? [];
+    const decisions = planSweep(requests, settings, clock);
+
+    console.log(`Sweeping ${requests.length} pending request(s)`);
+
+    let offeredCount = 0;
+    let escalatedCount = 0;
+
+    for (const [index, request] of requests.entries()) {
+      const decision = decisions[index];
+      let offered = false;
+
+      try {
+        const result = await assignRequest(
+          supabase,
+          request,
+          { source: 'sweep-pending-requests' },
+          { radiusExtensionKm: decision.radiusExtensionKm, context: { now: clock.now() } }
+        );
+        offered = result.status === 'offered';
+        if (offered) offeredCount++;
+      } catch (assignError) {
+        console.error(`Failed to sweep request ${request.id}:`, assignError);
+      }
+
+      if (offered || !decision.escalate) continue;
+
+      // Only the sweep that sets sla_escalated_at sends the alert
+      const { data: escalated, error: escalateError } = await supabase
+        .from('service_requests')
+        .update({ sla_escalated_at: clock.now().toISOString() })
+        .eq('id', request.id)
+        .is('sla_escalated_at', null)
+        .select('id');
+
+      if (escalateError) {
+        console.error(`Failed to escalate request ${request.id}:`, escalateError);
+        continue;
+      }
+
+      if (escalated && escalated.length > 0) {
+        escalatedCount++;
+        await notifyAdmins(supabase, {
+          title: 'Request Past SLA',
+          message: `Request ${request.id} has been pending for ${Math.floor(decision.ageMinutes / 60)} hour(s) without a provider`,
+          type: 'error',
+          requestId: request.id,
+        });
+      }
+    }
+
+    console.log(`Sweep finished: ${offeredCount} offered, ${escalatedCount} escalated`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        sweptCount: requests.length,
+        offeredCount,
+        escalatedCount,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in sweep-pending-requests function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        status: error instanceof HttpError ? error.status : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
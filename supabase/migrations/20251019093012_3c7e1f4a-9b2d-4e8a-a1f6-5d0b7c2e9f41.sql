@@ -0,0 +1,6 @@
+-- Provider rating used by the shared matching engine (NULL until rated)
+ALTER TABLE public.provider_profiles
+  ADD COLUMN rating NUMERIC(3, 2) CHECK (rating >= 0 AND rating <= 5);
+
+-- Speed up workload / last-job lookups per provider during matching
+CREATE INDEX idx_service_requests_provider_status ON public.service_requests(provider_id, status);
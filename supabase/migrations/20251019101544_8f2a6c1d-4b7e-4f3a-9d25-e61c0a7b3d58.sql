@@ -0,0 +1,3 @@
+-- New request state: the job has been offered to a provider who has not yet accepted.
+-- Added in its own migration because a new enum value can't be used in the same transaction.
+ALTER TYPE public.request_status ADD VALUE IF NOT EXISTS 'offered' AFTER 'pending';
@@ -0,0 +1,167 @@
+-- Key/value settings that can be tuned without a deploy
+CREATE TABLE public.app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  description TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view app settings"
+ON public.app_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage app settings"
+ON public.app_settings
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_app_settings_updated_at
+BEFORE UPDATE ON public.app_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.app_setting(_key TEXT)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT value FROM public.app_settings WHERE key = _key
+$$;
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('offer_timeout_minutes', '15', 'How long a provider has to accept a job offer');
+
+-- How long a new offer stays open
+CREATE OR REPLACE FUNCTION public.offer_timeout()
+RETURNS INTERVAL
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT make_interval(mins => COALESCE((public.app_setting('offer_timeout_minutes') #>> '{}')::INT, 15))
+$$;
+
+-- Create enum for offer status
+CREATE TYPE public.offer_status AS ENUM ('pending', 'accepted', 'declined', 'expired');
+
+-- Job offers made to providers; a request only becomes assigned once an offer is accepted
+CREATE TABLE public.request_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES public.provider_profiles(id) ON DELETE CASCADE,
+  status public.offer_status NOT NULL DEFAULT 'pending',
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + public.offer_timeout()),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.request_offers ENABLE ROW LEVEL SECURITY;
+
+-- Providers can view offers made to them
+CREATE POLICY "Providers can view their offers"
+ON public.request_offers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.provider_profiles
+    WHERE provider_profiles.id = request_offers.provider_id
+      AND provider_profiles.user_id = auth.uid()
+  )
+);
+
+-- Residents can view offers for their own requests
+CREATE POLICY "Residents can view offers for their requests"
+ON public.request_offers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE service_requests.id = request_offers.request_id
+      AND service_requests.resident_id = auth.uid()
+  )
+);
+
+-- Admins can view all offers
+CREATE POLICY "Admins can view all offers"
+ON public.request_offers
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_request_offers_updated_at
+BEFORE UPDATE ON public.request_offers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- At most one open offer per request
+CREATE UNIQUE INDEX idx_request_offers_one_pending ON public.request_offers(request_id) WHERE status = 'pending';
+CREATE INDEX idx_request_offers_provider_id ON public.request_offers(provider_id);
+
+-- Accept or decline the open offer on a request. Called by the offered provider.
+CREATE OR REPLACE FUNCTION public.respond_to_offer(_request_id UUID, _accept BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.request_offers%ROWTYPE;
+  _request public.service_requests%ROWTYPE;
+  _provider_name TEXT;
+BEGIN
+  SELECT o.* INTO _offer
+  FROM public.request_offers o
+  JOIN public.provider_profiles pp ON pp.id = o.provider_id
+  WHERE o.request_id = _request_id
+    AND o.status = 'pending'
+    AND pp.user_id = auth.uid()
+  FOR UPDATE OF o;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'No open offer for this request');
+  END IF;
+
+  SELECT * INTO _request FROM public.service_requests WHERE id = _request_id FOR UPDATE;
+
+  IF _offer.expires_at < now() THEN
+    UPDATE public.request_offers SET status = 'expired' WHERE id = _offer.id;
+    UPDATE public.service_requests
+    SET status = 'pending', provider_id = NULL
+    WHERE id = _request_id AND status = 'offered' AND provider_id = _offer.provider_id;
+    RETURN jsonb_build_object('success', false, 'message', 'This offer has expired');
+  END IF;
+
+  IF _accept THEN
+    UPDATE public.request_offers SET status = 'accepted', responded_at = now() WHERE id = _offer.id;
+    UPDATE public.service_requests
+    SET status = 'assigned', assigned_at = now()
+    WHERE id = _request_id;
+
+    SELECT name INTO _provider_name FROM public.profiles WHERE id = auth.uid();
+
+    INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+    VALUES (
+      _request.resident_id,
+      'Service Request Assigned',
+      'Your request has been accepted by ' || COALESCE(_provider_name, 'a service provider'),
+      'success',
+      _request_id
+    );
+  ELSE
+    UPDATE public.request_offers SET status = 'declined', responded_at = now() WHERE id = _offer.id;
+    UPDATE public.service_requests
+    SET status = 'pending', provider_id = NULL
+    WHERE id = _request_id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'accepted', _accept);
+END;
+$$;
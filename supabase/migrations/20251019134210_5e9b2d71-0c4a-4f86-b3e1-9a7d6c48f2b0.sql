@@ -0,0 +1,2 @@
+-- Offer state for a job the provider accepted and later gave up
+ALTER TYPE public.offer_status ADD VALUE IF NOT EXISTS 'released';
@@ -0,0 +1,272 @@
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('max_offer_attempts', '3', 'Offers made for a request before it is escalated to admins');
+
+-- Remaining ranked candidates for a request, computed by the matching engine
+-- when the first offer is made. Consumed in order as offers are declined,
+-- expire or are released.
+CREATE TABLE public.assignment_queues (
+  request_id UUID PRIMARY KEY REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  candidate_ids UUID[] NOT NULL DEFAULT '{}',
+  escalated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.assignment_queues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view assignment queues"
+ON public.assignment_queues
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_assignment_queues_updated_at
+BEFORE UPDATE ON public.assignment_queues
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Offer a pending request to the next queued candidate. Escalates to admins
+-- once max_offer_attempts offers have been made or the queue runs out.
+CREATE OR REPLACE FUNCTION public.advance_offer(_request_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+  _candidates UUID[];
+  _candidate UUID;
+  _provider_user_id UUID;
+  _attempts INT;
+  _max_attempts INT := COALESCE((public.app_setting('max_offer_attempts') #>> '{}')::INT, 3);
+BEGIN
+  SELECT * INTO _request FROM public.service_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR _request.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Request is not pending');
+  END IF;
+
+  SELECT candidate_ids INTO _candidates
+  FROM public.assignment_queues
+  WHERE request_id = _request_id
+  FOR UPDATE;
+
+  SELECT count(*) INTO _attempts FROM public.request_offers WHERE request_id = _request_id;
+
+  WHILE _attempts < _max_attempts AND COALESCE(array_length(_candidates, 1), 0) > 0 LOOP
+    _candidate := _candidates[1];
+    _candidates := _candidates[2:];
+
+    -- Skip providers who have gone offline or already had an offer for this request
+    SELECT pp.user_id INTO _provider_user_id
+    FROM public.provider_profiles pp
+    WHERE pp.id = _candidate
+      AND pp.is_available
+      AND NOT EXISTS (
+        SELECT 1 FROM public.request_offers o
+        WHERE o.request_id = _request_id AND o.provider_id = _candidate
+      );
+
+    IF FOUND THEN
+      UPDATE public.service_requests
+      SET status = 'offered', provider_id = _candidate
+      WHERE id = _request_id;
+
+      INSERT INTO public.request_offers (request_id, provider_id)
+      VALUES (_request_id, _candidate);
+
+      UPDATE public.assignment_queues
+      SET candidate_ids = _candidates
+      WHERE request_id = _request_id;
+
+      INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+      VALUES (
+        _provider_user_id,
+        'New Job Offer',
+        'You have been offered a new service request. Accept it before the offer expires.',
+        'info',
+        _request_id
+      );
+
+      RETURN jsonb_build_object('success', true, 'provider_id', _candidate, 'attempt', _attempts + 1);
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.assignment_queues (request_id, candidate_ids, escalated_at)
+  VALUES (_request_id, '{}', now())
+  ON CONFLICT (request_id) DO UPDATE SET candidate_ids = '{}', escalated_at = now();
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  SELECT
+    user_id,
+    'Assignment Escalated',
+    'Request ' || _request_id || ' is still unassigned after ' || _attempts || ' offer(s)',
+    'warning',
+    _request_id
+  FROM public.user_roles
+  WHERE role = 'admin';
+
+  RETURN jsonb_build_object('success', false, 'escalated', true, 'attempts', _attempts);
+END;
+$$;
+
+-- Only reachable through the functions below and the service role
+REVOKE EXECUTE ON FUNCTION public.advance_offer(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Accept or decline the open offer on a request. Declined and expired offers
+-- cascade to the next queued candidate.
+CREATE OR REPLACE FUNCTION public.respond_to_offer(_request_id UUID, _accept BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.request_offers%ROWTYPE;
+  _request public.service_requests%ROWTYPE;
+  _provider_name TEXT;
+BEGIN
+  SELECT o.* INTO _offer
+  FROM public.request_offers o
+  JOIN public.provider_profiles pp ON pp.id = o.provider_id
+  WHERE o.request_id = _request_id
+    AND o.status = 'pending'
+    AND pp.user_id = auth.uid()
+  FOR UPDATE OF o;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'No open offer for this request');
+  END IF;
+
+  SELECT * INTO _request FROM public.service_requests WHERE id = _request_id FOR UPDATE;
+
+  IF _offer.expires_at < now() THEN
+    UPDATE public.request_offers SET status = 'expired' WHERE id = _offer.id;
+    UPDATE public.service_requests
+    SET status = 'pending', provider_id = NULL
+    WHERE id = _request_id AND status = 'offered' AND provider_id = _offer.provider_id;
+    PERFORM public.advance_offer(_request_id);
+    RETURN jsonb_build_object('success', false, 'message', 'This offer has expired');
+  END IF;
+
+  IF _accept THEN
+    UPDATE public.request_offers SET status = 'accepted', responded_at = now() WHERE id = _offer.id;
+    UPDATE public.service_requests
+    SET status = 'assigned', assigned_at = now()
+    WHERE id = _request_id;
+
+    SELECT name INTO _provider_name FROM public.profiles WHERE id = auth.uid();
+
+    INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+    VALUES (
+      _request.resident_id,
+      'Service Request Assigned',
+      'Your request has been accepted by ' || COALESCE(_provider_name, 'a service provider'),
+      'success',
+      _request_id
+    );
+  ELSE
+    UPDATE public.request_offers SET status = 'declined', responded_at = now() WHERE id = _offer.id;
+    UPDATE public.service_requests
+    SET status = 'pending', provider_id = NULL
+    WHERE id = _request_id;
+    PERFORM public.advance_offer(_request_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'accepted', _accept);
+END;
+$$;
+
+-- Give up an accepted job. Called by the assigned provider; the job cascades
+-- to the next queued candidate.
+CREATE OR REPLACE FUNCTION public.release_request(_request_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+BEGIN
+  SELECT sr.* INTO _request
+  FROM public.service_requests sr
+  JOIN public.provider_profiles pp ON pp.id = sr.provider_id
+  WHERE sr.id = _request_id
+    AND sr.status = 'assigned'
+    AND pp.user_id = auth.uid()
+  FOR UPDATE OF sr;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'No assigned job to release');
+  END IF;
+
+  UPDATE public.request_offers
+  SET status = 'released', responded_at = now()
+  WHERE request_id = _request_id
+    AND provider_id = _request.provider_id
+    AND status = 'accepted';
+
+  UPDATE public.service_requests
+  SET status = 'pending', provider_id = NULL, assigned_at = NULL
+  WHERE id = _request_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  VALUES (
+    _request.resident_id,
+    'Provider Unassigned',
+    'Your service provider can no longer take this job. We are finding another provider.',
+    'warning',
+    _request_id
+  );
+
+  PERFORM public.advance_offer(_request_id);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Expire offers nobody responded to in time and cascade them
+CREATE OR REPLACE FUNCTION public.expire_stale_offers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.request_offers%ROWTYPE;
+  _expired INT := 0;
+BEGIN
+  FOR _offer IN
+    SELECT * FROM public.request_offers
+    WHERE status = 'pending' AND expires_at < now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.request_offers SET status = 'expired' WHERE id = _offer.id;
+
+    UPDATE public.service_requests
+    SET status = 'pending', provider_id = NULL
+    WHERE id = _offer.request_id AND status = 'offered' AND provider_id = _offer.provider_id;
+
+    INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+    SELECT user_id, 'Offer Expired', 'A job offer expired before you responded', 'info', _offer.request_id
+    FROM public.provider_profiles
+    WHERE id = _offer.provider_id;
+
+    PERFORM public.advance_offer(_offer.request_id);
+    _expired := _expired + 1;
+  END LOOP;
+
+  RETURN _expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_stale_offers() FROM PUBLIC, anon, authenticated;
+
+-- Check for expired offers every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'expire-stale-offers',
+  '* * * * *',
+  $$SELECT public.expire_stale_offers()$$
+);
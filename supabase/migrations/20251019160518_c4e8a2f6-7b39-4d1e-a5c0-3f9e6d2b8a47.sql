@@ -0,0 +1,237 @@
+-- Single transactional entry point for offering a request to a provider.
+-- Locks the request and the provider row so concurrent runs of assign-provider,
+-- assign-pending-requests and the offer cascade can't double-offer a request
+-- or drop the notification. Locks are always taken in the order
+-- request -> provider -> offer.
+--
+-- Returns {"status": "offered"} or {"status": "conflict", "reason": ...}
+CREATE OR REPLACE FUNCTION public.offer_request(
+  _request_id UUID,
+  _provider_id UUID,
+  _fallback_provider_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+  _provider public.provider_profiles%ROWTYPE;
+  _offer_id UUID;
+BEGIN
+  SELECT * INTO _request FROM public.service_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'request_not_found');
+  END IF;
+
+  IF _request.status <> 'pending' OR _request.provider_id IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'request_not_pending', 'current_status', _request.status);
+  END IF;
+
+  SELECT * INTO _provider FROM public.provider_profiles WHERE id = _provider_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT COALESCE(_provider.is_available, false) THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'provider_unavailable');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.request_offers
+    WHERE request_id = _request_id AND provider_id = _provider_id
+  ) THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'already_offered');
+  END IF;
+
+  UPDATE public.service_requests
+  SET status = 'offered', provider_id = _provider_id
+  WHERE id = _request_id;
+
+  INSERT INTO public.request_offers (request_id, provider_id)
+  VALUES (_request_id, _provider_id)
+  RETURNING id INTO _offer_id;
+
+  INSERT INTO public.assignment_queues (request_id, candidate_ids)
+  VALUES (_request_id, COALESCE(_fallback_provider_ids, '{}'))
+  ON CONFLICT (request_id) DO UPDATE
+  SET candidate_ids = EXCLUDED.candidate_ids, escalated_at = NULL;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  VALUES (
+    _provider.user_id,
+    'New Job Offer',
+    'You have been offered a new service request. Accept it before the offer expires.',
+    'info',
+    _request_id
+  );
+
+  RETURN jsonb_build_object('status', 'offered', 'offer_id', _offer_id, 'provider_id', _provider_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_request(UUID, UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Offer a pending request to the next queued candidate. Escalates to admins
+-- once max_offer_attempts offers have been made or the queue runs out.
+CREATE OR REPLACE FUNCTION public.advance_offer(_request_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+  _candidates UUID[];
+  _candidate UUID;
+  _result JSONB;
+  _attempts INT;
+  _max_attempts INT := COALESCE((public.app_setting('max_offer_attempts') #>> '{}')::INT, 3);
+BEGIN
+  SELECT * INTO _request FROM public.service_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR _request.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Request is not pending');
+  END IF;
+
+  SELECT candidate_ids INTO _candidates
+  FROM public.assignment_queues
+  WHERE request_id = _request_id
+  FOR UPDATE;
+
+  SELECT count(*) INTO _attempts FROM public.request_offers WHERE request_id = _request_id;
+
+  WHILE _attempts < _max_attempts AND COALESCE(array_length(_candidates, 1), 0) > 0 LOOP
+    _candidate := _candidates[1];
+    _candidates := _candidates[2:];
+
+    -- Providers who went offline or already had an offer come back as conflicts
+    _result := public.offer_request(_request_id, _candidate, _candidates);
+
+    IF _result->>'status' = 'offered' THEN
+      RETURN jsonb_build_object('success', true, 'provider_id', _candidate, 'attempt', _attempts + 1);
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.assignment_queues (request_id, candidate_ids, escalated_at)
+  VALUES (_request_id, '{}', now())
+  ON CONFLICT (request_id) DO UPDATE SET candidate_ids = '{}', escalated_at = now();
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  SELECT
+    user_id,
+    'Assignment Escalated',
+    'Request ' || _request_id || ' is still unassigned after ' || _attempts || ' offer(s)',
+    'warning',
+    _request_id
+  FROM public.user_roles
+  WHERE role = 'admin';
+
+  RETURN jsonb_build_object('success', false, 'escalated', true, 'attempts', _attempts);
+END;
+$$;
+
+-- Accept or decline the open offer on a request. Declined and expired offers
+-- cascade to the next queued candidate.
+CREATE OR REPLACE FUNCTION public.respond_to_offer(_request_id UUID, _accept BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.request_offers%ROWTYPE;
+  _request public.service_requests%ROWTYPE;
+  _provider_name TEXT;
+BEGIN
+  -- Lock the request first, same order as offer_request
+  SELECT * INTO _request FROM public.service_requests WHERE id = _request_id FOR UPDATE;
+
+  SELECT o.* INTO _offer
+  FROM public.request_offers o
+  JOIN public.provider_profiles pp ON pp.id = o.provider_id
+  WHERE o.request_id = _request_id
+    AND o.status = 'pending'
+    AND pp.user_id = auth.uid()
+  FOR UPDATE OF o;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'No open offer for this request');
+  END IF;
+
+  IF _offer.expires_at < now() THEN
+    UPDATE public.request_offers SET status = 'expired' WHERE id = _offer.id;
+    UPDATE public.service_requests
+    SET status = 'pending', provider_id = NULL
+    WHERE id = _request_id AND status = 'offered' AND provider_id = _offer.provider_id;
+    PERFORM public.advance_offer(_request_id);
+    RETURN jsonb_build_object('success', false, 'message', 'This offer has expired');
+  END IF;
+
+  IF _accept THEN
+    UPDATE public.request_offers SET status = 'accepted', responded_at = now() WHERE id = _offer.id;
+    UPDATE public.service_requests
+    SET status = 'assigned', assigned_at = now()
+    WHERE id = _request_id;
+
+    SELECT name INTO _provider_name FROM public.profiles WHERE id = auth.uid();
+
+    INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+    VALUES (
+      _request.resident_id,
+      'Service Request Assigned',
+      'Your request has been accepted by ' || COALESCE(_provider_name, 'a service provider'),
+      'success',
+      _request_id
+    );
+  ELSE
+    UPDATE public.request_offers SET status = 'declined', responded_at = now() WHERE id = _offer.id;
+    UPDATE public.service_requests
+    SET status = 'pending', provider_id = NULL
+    WHERE id = _request_id;
+    PERFORM public.advance_offer(_request_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'accepted', _accept);
+END;
+$$;
+
+-- Expire offers nobody responded to in time and cascade them.
+-- Locks the request rather than the offer to keep the lock order above.
+CREATE OR REPLACE FUNCTION public.expire_stale_offers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.request_offers%ROWTYPE;
+  _expired INT := 0;
+BEGIN
+  FOR _offer IN
+    SELECT o.* FROM public.request_offers o
+    JOIN public.service_requests sr ON sr.id = o.request_id
+    WHERE o.status = 'pending' AND o.expires_at < now()
+    FOR UPDATE OF sr SKIP LOCKED
+  LOOP
+    UPDATE public.request_offers SET status = 'expired' WHERE id = _offer.id AND status = 'pending';
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE public.service_requests
+    SET status = 'pending', provider_id = NULL
+    WHERE id = _offer.request_id AND status = 'offered' AND provider_id = _offer.provider_id;
+
+    INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+    SELECT user_id, 'Offer Expired', 'A job offer expired before you responded', 'info', _offer.request_id
+    FROM public.provider_profiles
+    WHERE id = _offer.provider_id;
+
+    PERFORM public.advance_offer(_offer.request_id);
+    _expired := _expired + 1;
+  END LOOP;
+
+  RETURN _expired;
+END;
+$$;
@@ -0,0 +1,179 @@
+-- Spatial lookup for matching: geography points kept in sync with the
+-- lat/lng columns and GiST-indexed, so "who is near this request" and
+-- "what is near this provider" no longer need a full scan in the edge functions.
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+ALTER TABLE public.profiles
+  ADD COLUMN location extensions.geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    CASE
+      WHEN location_lat IS NOT NULL AND location_lng IS NOT NULL
+      THEN extensions.ST_SetSRID(extensions.ST_MakePoint(location_lng, location_lat), 4326)::extensions.geography
+    END
+  ) STORED;
+
+ALTER TABLE public.service_requests
+  ADD COLUMN location extensions.geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    extensions.ST_SetSRID(extensions.ST_MakePoint(location_lng, location_lat), 4326)::extensions.geography
+  ) STORED;
+
+CREATE INDEX idx_profiles_location ON public.profiles USING GIST (location);
+CREATE INDEX idx_service_requests_location_gist ON public.service_requests USING GIST (location);
+
+-- Superseded by the GiST index
+DROP INDEX IF EXISTS public.idx_service_requests_location;
+
+-- The parts of matching that are expected to change (how far to search, how
+-- far a provider is, whether they were offered the request before) live in
+-- their own functions, so find_provider_candidates only puts them together.
+
+-- Radius a request is searched with: the caller's, or by default the largest
+-- service radius of any provider
+CREATE OR REPLACE FUNCTION public.candidate_search_radius_km(
+  _request_id UUID,
+  _search_radius_km NUMERIC DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    _search_radius_km,
+    (SELECT max(COALESCE(service_area_radius_km, 10)) FROM public.provider_profiles)
+  )
+$$;
+
+-- Distance in km from the provider's base to the request
+CREATE OR REPLACE FUNCTION public.provider_distance_km(_provider_id UUID, _request_id UUID)
+RETURNS DOUBLE PRECISION
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT ST_Distance(p.location, sr.location) / 1000
+  FROM public.provider_profiles pp
+  JOIN public.profiles p ON p.id = pp.user_id
+  JOIN public.service_requests sr ON sr.id = _request_id
+  WHERE pp.id = _provider_id
+$$;
+
+-- Whether the provider's base lies within _radius_km of the request
+CREATE OR REPLACE FUNCTION public.provider_within_km(
+  _provider_id UUID,
+  _request_id UUID,
+  _radius_km NUMERIC
+)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.provider_profiles pp
+    JOIN public.profiles p ON p.id = pp.user_id
+    JOIN public.service_requests sr ON sr.id = _request_id
+    WHERE pp.id = _provider_id
+      AND ST_DWithin(p.location, sr.location, _radius_km * 1000)
+  )
+$$;
+
+-- Whether the provider already had an offer for the request
+CREATE OR REPLACE FUNCTION public.provider_previously_offered(_provider_id UUID, _request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.request_offers
+    WHERE request_id = _request_id AND provider_id = _provider_id
+  )
+$$;
+
+-- Providers in the request's category whose base lies within the search radius
+-- (by default the largest service radius of any provider), nearest first.
+-- Eligibility (availability, own radius, previous offers) is left to the
+-- matching engine so it can explain why a provider was skipped.
+CREATE OR REPLACE FUNCTION public.find_provider_candidates(
+  _request_id UUID,
+  _search_radius_km NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (
+  provider_id UUID,
+  user_id UUID,
+  provider_name TEXT,
+  is_available BOOLEAN,
+  service_radius_km NUMERIC,
+  distance_km DOUBLE PRECISION,
+  rating NUMERIC,
+  active_jobs INTEGER,
+  last_assigned_at TIMESTAMP WITH TIME ZONE,
+  previously_offered BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT public.candidate_search_radius_km(_request_id, _search_radius_km) AS radius_km
+  )
+  SELECT
+    pp.id,
+    pp.user_id,
+    p.name,
+    COALESCE(pp.is_available, false),
+    COALESCE(pp.service_area_radius_km, 10),
+    public.provider_distance_km(pp.id, r.id),
+    pp.rating,
+    (
+      SELECT count(*)::INTEGER FROM public.service_requests sr
+      WHERE sr.provider_id = pp.id AND sr.status IN ('assigned', 'in_progress')
+    ),
+    (SELECT max(sr.assigned_at) FROM public.service_requests sr WHERE sr.provider_id = pp.id),
+    public.provider_previously_offered(pp.id, r.id)
+  FROM public.service_requests r
+  CROSS JOIN bounds b
+  JOIN public.provider_categories pc ON pc.category_id = r.category_id
+  JOIN public.provider_profiles pp ON pp.id = pc.provider_profile_id
+  JOIN public.profiles p ON p.id = pp.user_id
+  WHERE r.id = _request_id
+    AND public.provider_within_km(pp.id, r.id, b.radius_km)
+  ORDER BY 6
+$$;
+
+-- Unassigned pending requests in the provider's categories and service radius, oldest first
+CREATE OR REPLACE FUNCTION public.find_pending_requests_near(_provider_id UUID)
+RETURNS SETOF public.service_requests
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT sr.*
+  FROM public.provider_profiles pp
+  JOIN public.profiles p ON p.id = pp.user_id
+  JOIN public.service_requests sr
+    ON sr.status = 'pending'
+    AND sr.provider_id IS NULL
+    AND ST_DWithin(sr.location, p.location, COALESCE(pp.service_area_radius_km, 10) * 1000)
+  WHERE pp.id = _provider_id
+    AND sr.category_id IN (
+      SELECT category_id FROM public.provider_categories WHERE provider_profile_id = pp.id
+    )
+  ORDER BY sr.created_at
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.candidate_search_radius_km(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.provider_distance_km(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.provider_within_km(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.provider_previously_offered(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_provider_candidates(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_pending_requests_near(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,136 @@
+-- Cap on open work per provider. Open work counts outstanding offers as well
+-- as assigned and in-progress jobs, so one provider can't be offered every
+-- pending request at once.
+ALTER TABLE public.provider_profiles
+  ADD COLUMN max_active_jobs INTEGER NOT NULL DEFAULT 3 CHECK (max_active_jobs > 0);
+
+CREATE OR REPLACE FUNCTION public.provider_open_jobs(_provider_id UUID)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.service_requests
+  WHERE provider_id = _provider_id
+    AND status IN ('offered', 'assigned', 'in_progress')
+$$;
+
+-- Return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.find_provider_candidates(UUID, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.find_provider_candidates(
+  _request_id UUID,
+  _search_radius_km NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (
+  provider_id UUID,
+  user_id UUID,
+  provider_name TEXT,
+  is_available BOOLEAN,
+  service_radius_km NUMERIC,
+  distance_km DOUBLE PRECISION,
+  rating NUMERIC,
+  active_jobs INTEGER,
+  max_active_jobs INTEGER,
+  last_assigned_at TIMESTAMP WITH TIME ZONE,
+  previously_offered BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT public.candidate_search_radius_km(_request_id, _search_radius_km) AS radius_km
+  )
+  SELECT
+    pp.id,
+    pp.user_id,
+    p.name,
+    COALESCE(pp.is_available, false),
+    COALESCE(pp.service_area_radius_km, 10),
+    public.provider_distance_km(pp.id, r.id),
+    pp.rating,
+    public.provider_open_jobs(pp.id),
+    pp.max_active_jobs,
+    (SELECT max(sr.assigned_at) FROM public.service_requests sr WHERE sr.provider_id = pp.id),
+    public.provider_previously_offered(pp.id, r.id)
+  FROM public.service_requests r
+  CROSS JOIN bounds b
+  JOIN public.provider_categories pc ON pc.category_id = r.category_id
+  JOIN public.provider_profiles pp ON pp.id = pc.provider_profile_id
+  JOIN public.profiles p ON p.id = pp.user_id
+  WHERE r.id = _request_id
+    AND public.provider_within_km(pp.id, r.id, b.radius_km)
+  ORDER BY 6
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_provider_candidates(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, plus the capacity check under the provider row lock
+CREATE OR REPLACE FUNCTION public.offer_request(
+  _request_id UUID,
+  _provider_id UUID,
+  _fallback_provider_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+  _provider public.provider_profiles%ROWTYPE;
+  _offer_id UUID;
+BEGIN
+  SELECT * INTO _request FROM public.service_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'request_not_found');
+  END IF;
+
+  IF _request.status <> 'pending' OR _request.provider_id IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'request_not_pending', 'current_status', _request.status);
+  END IF;
+
+  SELECT * INTO _provider FROM public.provider_profiles WHERE id = _provider_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT COALESCE(_provider.is_available, false) THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'provider_unavailable');
+  END IF;
+
+  IF public.provider_open_jobs(_provider_id) >= _provider.max_active_jobs THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'provider_at_capacity');
+  END IF;
+
+  IF public.provider_previously_offered(_provider_id, _request_id) THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'already_offered');
+  END IF;
+
+  UPDATE public.service_requests
+  SET status = 'offered', provider_id = _provider_id
+  WHERE id = _request_id;
+
+  INSERT INTO public.request_offers (request_id, provider_id)
+  VALUES (_request_id, _provider_id)
+  RETURNING id INTO _offer_id;
+
+  INSERT INTO public.assignment_queues (request_id, candidate_ids)
+  VALUES (_request_id, COALESCE(_fallback_provider_ids, '{}'))
+  ON CONFLICT (request_id) DO UPDATE
+  SET candidate_ids = EXCLUDED.candidate_ids, escalated_at = NULL;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  VALUES (
+    _provider.user_id,
+    'New Job Offer',
+    'You have been offered a new service request. Accept it before the offer expires.',
+    'info',
+    _request_id
+  );
+
+  RETURN jsonb_build_object('status', 'offered', 'offer_id', _offer_id, 'provider_id', _provider_id);
+END;
+$$;
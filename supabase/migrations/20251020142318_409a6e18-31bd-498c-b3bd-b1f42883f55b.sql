@@ -0,0 +1,24 @@
+-- One row per run of the matching engine for a request (assign-provider,
+-- assign-pending-requests). Keeps the full candidate evaluation so matching
+-- quality can be analysed after the edge function logs are gone.
+CREATE TABLE public.assignment_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  trigger_source TEXT NOT NULL,
+  triggered_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+  chosen_provider_id UUID REFERENCES public.provider_profiles(id) ON DELETE SET NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('offered', 'no_candidates', 'conflict', 'error')),
+  failure_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_assignment_attempts_request ON public.assignment_attempts(request_id, created_at DESC);
+
+ALTER TABLE public.assignment_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge functions with the service role only
+CREATE POLICY "Admins can view assignment attempts"
+ON public.assignment_attempts
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
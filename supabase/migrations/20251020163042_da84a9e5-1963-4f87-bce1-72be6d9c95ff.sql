@@ -0,0 +1,133 @@
+-- Sweeper settings. Radius steps widen matching for requests that have been
+-- pending for a while: a provider is accepted up to extra_km beyond their own
+-- service radius once the request is after_minutes old.
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('sweeper_radius_steps', '[{"after_minutes": 30, "extra_km": 5}, {"after_minutes": 120, "extra_km": 15}]',
+   'Extra search radius for pending requests by age'),
+  ('pending_sla_minutes', '240', 'Minutes a request may stay pending before admins are alerted');
+
+-- Set once the sweeper has escalated the request to admins
+ALTER TABLE public.service_requests
+  ADD COLUMN sla_escalated_at TIMESTAMP WITH TIME ZONE;
+
+-- Candidate lookup with an optional widened radius. The signatures change, so
+-- the functions have to be recreated.
+DROP FUNCTION IF EXISTS public.find_provider_candidates(UUID, NUMERIC);
+DROP FUNCTION IF EXISTS public.candidate_search_radius_km(UUID, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.candidate_search_radius_km(
+  _request_id UUID,
+  _search_radius_km NUMERIC DEFAULT NULL,
+  _radius_extension_km NUMERIC DEFAULT 0
+)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    _search_radius_km,
+    (SELECT max(COALESCE(service_area_radius_km, 10)) FROM public.provider_profiles)
+  ) + COALESCE(_radius_extension_km, 0)
+$$;
+
+CREATE OR REPLACE FUNCTION public.find_provider_candidates(
+  _request_id UUID,
+  _search_radius_km NUMERIC DEFAULT NULL,
+  _radius_extension_km NUMERIC DEFAULT 0
+)
+RETURNS TABLE (
+  provider_id UUID,
+  user_id UUID,
+  provider_name TEXT,
+  is_available BOOLEAN,
+  service_radius_km NUMERIC,
+  distance_km DOUBLE PRECISION,
+  rating NUMERIC,
+  active_jobs INTEGER,
+  max_active_jobs INTEGER,
+  last_assigned_at TIMESTAMP WITH TIME ZONE,
+  previously_offered BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT public.candidate_search_radius_km(
+      _request_id, _search_radius_km, _radius_extension_km
+    ) AS radius_km
+  )
+  SELECT
+    pp.id,
+    pp.user_id,
+    p.name,
+    COALESCE(pp.is_available, false),
+    COALESCE(pp.service_area_radius_km, 10),
+    public.provider_distance_km(pp.id, r.id),
+    pp.rating,
+    public.provider_open_jobs(pp.id),
+    pp.max_active_jobs,
+    (SELECT max(sr.assigned_at) FROM public.service_requests sr WHERE sr.provider_id = pp.id),
+    public.provider_previously_offered(pp.id, r.id)
+  FROM public.service_requests r
+  CROSS JOIN bounds b
+  JOIN public.provider_categories pc ON pc.category_id = r.category_id
+  JOIN public.provider_profiles pp ON pp.id = pc.provider_profile_id
+  JOIN public.profiles p ON p.id = pp.user_id
+  WHERE r.id = _request_id
+    AND public.provider_within_km(pp.id, r.id, b.radius_km)
+  ORDER BY 6
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.candidate_search_radius_km(UUID, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_provider_candidates(UUID, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Calls an edge function of this project as the service role. The project URL
+-- and the service role key are read from Vault (secret names: project_url and
+-- service_role_key); without them the call is skipped with a warning.
+-- Returns the pg_net request id.
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(_name TEXT, _body JSONB DEFAULT '{}')
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_url TEXT;
+  _service_role_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO _project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO _service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF _project_url IS NULL OR _service_role_key IS NULL THEN
+    RAISE WARNING 'Not calling edge function %: project_url or service_role_key missing from Vault', _name;
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(_project_url, '/') || '/functions/v1/' || _name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || _service_role_key
+    ),
+    body := COALESCE(_body, '{}'::jsonb)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Run the sweep-pending-requests edge function every five minutes
+SELECT cron.schedule(
+  'sweep-pending-requests',
+  '*/5 * * * *',
+  $$SELECT public.invoke_edge_function('sweep-pending-requests')$$
+);
@@ -0,0 +1,73 @@
+-- Urgency of a request, lowest first so that ORDER BY priority DESC puts
+-- emergencies at the front
+CREATE TYPE public.request_priority AS ENUM ('low', 'normal', 'high', 'emergency');
+
+ALTER TABLE public.service_requests
+  ADD COLUMN priority public.request_priority NOT NULL DEFAULT 'normal';
+
+CREATE INDEX idx_service_requests_pending_priority
+  ON public.service_requests(priority DESC, created_at)
+  WHERE status = 'pending';
+
+-- Emergencies can go to any available provider in the category within this
+-- distance, regardless of the provider's own service radius
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('emergency_search_radius_km', '50', 'Search radius for emergency requests');
+
+-- Emergencies are searched at least as far as the emergency search radius
+CREATE OR REPLACE FUNCTION public.candidate_search_radius_km(
+  _request_id UUID,
+  _search_radius_km NUMERIC DEFAULT NULL,
+  _radius_extension_km NUMERIC DEFAULT 0
+)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    COALESCE(
+      _search_radius_km,
+      (SELECT max(COALESCE(service_area_radius_km, 10)) FROM public.provider_profiles)
+    ) + COALESCE(_radius_extension_km, 0),
+    CASE WHEN sr.priority = 'emergency'
+      THEN (public.app_setting('emergency_search_radius_km') #>> '{}')::NUMERIC
+    END
+  )
+  FROM public.service_requests sr
+  WHERE sr.id = _request_id
+$$;
+
+-- Pending requests a provider could take, most urgent first. Emergencies are
+-- matched within the emergency search radius instead of the provider's own.
+CREATE OR REPLACE FUNCTION public.find_pending_requests_near(_provider_id UUID)
+RETURNS SETOF public.service_requests
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT sr.*
+  FROM public.provider_profiles pp
+  JOIN public.profiles p ON p.id = pp.user_id
+  JOIN public.service_requests sr
+    ON sr.status = 'pending'
+    AND sr.provider_id IS NULL
+    AND ST_DWithin(
+      sr.location,
+      p.location,
+      CASE WHEN sr.priority = 'emergency'
+        THEN GREATEST(
+          COALESCE(pp.service_area_radius_km, 10),
+          (public.app_setting('emergency_search_radius_km') #>> '{}')::NUMERIC
+        )
+        ELSE COALESCE(pp.service_area_radius_km, 10)
+      END * 1000
+    )
+  WHERE pp.id = _provider_id
+    AND sr.category_id IN (
+      SELECT category_id FROM public.provider_categories WHERE provider_profile_id = pp.id
+    )
+  ORDER BY sr.priority DESC, sr.created_at
+$$;
@@ -0,0 +1,301 @@
+-- Weekly working hours and time off. A provider with no working hours set is
+-- treated as always on shift, so the is_available toggle keeps working on its
+-- own. Times are in the provider's own time zone.
+ALTER TABLE public.provider_profiles
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC';
+
+-- Rejects time zone names Postgres doesn't know. A trigger rather than a
+-- CHECK, as the lookup depends on the server's time zone database.
+CREATE OR REPLACE FUNCTION public.validate_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE NEW.timezone;
+  RETURN NEW;
+EXCEPTION
+  WHEN invalid_parameter_value THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone USING ERRCODE = 'check_violation';
+END;
+$$;
+
+CREATE TRIGGER validate_provider_timezone
+BEFORE INSERT OR UPDATE OF timezone ON public.provider_profiles
+FOR EACH ROW EXECUTE FUNCTION public.validate_timezone();
+
+CREATE TABLE public.provider_working_hours (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES public.provider_profiles(id) ON DELETE CASCADE,
+  -- 0 = Sunday, as EXTRACT(DOW) and Date.getDay()
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_time > start_time),
+  UNIQUE (provider_id, day_of_week)
+);
+
+CREATE TABLE public.provider_time_off (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES public.provider_profiles(id) ON DELETE CASCADE,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX idx_provider_time_off_provider ON public.provider_time_off(provider_id, ends_on);
+
+ALTER TABLE public.provider_working_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.provider_time_off ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Providers can manage their working hours"
+ON public.provider_working_hours
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.provider_profiles
+    WHERE provider_profiles.id = provider_working_hours.provider_id
+      AND provider_profiles.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.provider_profiles
+    WHERE provider_profiles.id = provider_working_hours.provider_id
+      AND provider_profiles.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view working hours"
+ON public.provider_working_hours
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Providers can manage their time off"
+ON public.provider_time_off
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.provider_profiles
+    WHERE provider_profiles.id = provider_time_off.provider_id
+      AND provider_profiles.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.provider_profiles
+    WHERE provider_profiles.id = provider_time_off.provider_id
+      AND provider_profiles.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view time off"
+ON public.provider_time_off
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Whether the provider is working at the given moment: not on time off and,
+-- if they have a schedule, inside that day's hours
+CREATE OR REPLACE FUNCTION public.provider_is_on_shift(
+  _provider_id UUID,
+  _at TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    NOT EXISTS (
+      SELECT 1 FROM public.provider_time_off t
+      WHERE t.provider_id = pp.id
+        AND (_at AT TIME ZONE pp.timezone)::DATE BETWEEN t.starts_on AND t.ends_on
+    )
+    AND (
+      NOT EXISTS (SELECT 1 FROM public.provider_working_hours h WHERE h.provider_id = pp.id)
+      OR EXISTS (
+        SELECT 1 FROM public.provider_working_hours h
+        WHERE h.provider_id = pp.id
+          AND h.day_of_week = EXTRACT(DOW FROM _at AT TIME ZONE pp.timezone)
+          AND (_at AT TIME ZONE pp.timezone)::TIME >= h.start_time
+          AND (_at AT TIME ZONE pp.timezone)::TIME < h.end_time
+      )
+    )
+  FROM public.provider_profiles pp
+  WHERE pp.id = _provider_id
+$$;
+
+-- Return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.find_provider_candidates(UUID, NUMERIC, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.find_provider_candidates(
+  _request_id UUID,
+  _search_radius_km NUMERIC DEFAULT NULL,
+  _radius_extension_km NUMERIC DEFAULT 0
+)
+RETURNS TABLE (
+  provider_id UUID,
+  user_id UUID,
+  provider_name TEXT,
+  is_available BOOLEAN,
+  on_shift BOOLEAN,
+  service_radius_km NUMERIC,
+  distance_km DOUBLE PRECISION,
+  rating NUMERIC,
+  active_jobs INTEGER,
+  max_active_jobs INTEGER,
+  last_assigned_at TIMESTAMP WITH TIME ZONE,
+  previously_offered BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT public.candidate_search_radius_km(
+      _request_id, _search_radius_km, _radius_extension_km
+    ) AS radius_km
+  )
+  SELECT
+    pp.id,
+    pp.user_id,
+    p.name,
+    COALESCE(pp.is_available, false),
+    public.provider_is_on_shift(pp.id),
+    COALESCE(pp.service_area_radius_km, 10),
+    public.provider_distance_km(pp.id, r.id),
+    pp.rating,
+    public.provider_open_jobs(pp.id),
+    pp.max_active_jobs,
+    (SELECT max(sr.assigned_at) FROM public.service_requests sr WHERE sr.provider_id = pp.id),
+    public.provider_previously_offered(pp.id, r.id)
+  FROM public.service_requests r
+  CROSS JOIN bounds b
+  JOIN public.provider_categories pc ON pc.category_id = r.category_id
+  JOIN public.provider_profiles pp ON pp.id = pc.provider_profile_id
+  JOIN public.profiles p ON p.id = pp.user_id
+  WHERE r.id = _request_id
+    AND public.provider_within_km(pp.id, r.id, b.radius_km)
+  ORDER BY 7
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_provider_candidates(UUID, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, plus the working hours check under the provider row lock.
+-- Queued candidates whose shift ended are skipped by advance_offer this way.
+CREATE OR REPLACE FUNCTION public.offer_request(
+  _request_id UUID,
+  _provider_id UUID,
+  _fallback_provider_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+  _provider public.provider_profiles%ROWTYPE;
+  _offer_id UUID;
+BEGIN
+  SELECT * INTO _request FROM public.service_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'request_not_found');
+  END IF;
+
+  IF _request.status <> 'pending' OR _request.provider_id IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'request_not_pending', 'current_status', _request.status);
+  END IF;
+
+  SELECT * INTO _provider FROM public.provider_profiles WHERE id = _provider_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT COALESCE(_provider.is_available, false) THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'provider_unavailable');
+  END IF;
+
+  IF NOT public.provider_is_on_shift(_provider_id) THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'provider_off_shift');
+  END IF;
+
+  IF public.provider_open_jobs(_provider_id) >= _provider.max_active_jobs THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'provider_at_capacity');
+  END IF;
+
+  IF public.provider_previously_offered(_provider_id, _request_id) THEN
+    RETURN jsonb_build_object('status', 'conflict', 'reason', 'already_offered');
+  END IF;
+
+  UPDATE public.service_requests
+  SET status = 'offered', provider_id = _provider_id
+  WHERE id = _request_id;
+
+  INSERT INTO public.request_offers (request_id, provider_id)
+  VALUES (_request_id, _provider_id)
+  RETURNING id INTO _offer_id;
+
+  INSERT INTO public.assignment_queues (request_id, candidate_ids)
+  VALUES (_request_id, COALESCE(_fallback_provider_ids, '{}'))
+  ON CONFLICT (request_id) DO UPDATE
+  SET candidate_ids = EXCLUDED.candidate_ids, escalated_at = NULL;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  VALUES (
+    _provider.user_id,
+    'New Job Offer',
+    'You have been offered a new service request. Accept it before the offer expires.',
+    'info',
+    _request_id
+  );
+
+  RETURN jsonb_build_object('status', 'offered', 'offer_id', _offer_id, 'provider_id', _provider_id);
+END;
+$$;
+
+-- Run assign-pending-requests for every available provider whose shift
+-- started since the previous run. Called by pg_cron every five minutes, so
+-- the window matches the schedule.
+CREATE OR REPLACE FUNCTION public.dispatch_shift_starts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _provider RECORD;
+  _count INTEGER := 0;
+BEGIN
+  FOR _provider IN
+    SELECT DISTINCT pp.id, pp.user_id
+    FROM public.provider_profiles pp
+    JOIN public.provider_working_hours h ON h.provider_id = pp.id
+    CROSS JOIN LATERAL (SELECT now() AT TIME ZONE pp.timezone AS local_now) l
+    WHERE COALESCE(pp.is_available, false)
+      AND h.day_of_week = EXTRACT(DOW FROM l.local_now)
+      AND l.local_now::DATE + h.start_time > l.local_now - INTERVAL '5 minutes'
+      AND l.local_now::DATE + h.start_time <= l.local_now
+      AND public.provider_is_on_shift(pp.id)
+  LOOP
+    PERFORM public.invoke_edge_function(
+      'assign-pending-requests',
+      jsonb_build_object('userId', _provider.user_id)
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dispatch_shift_starts() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'dispatch-shift-starts',
+  '*/5 * * * *',
+  $$SELECT public.dispatch_shift_starts()$$
+);
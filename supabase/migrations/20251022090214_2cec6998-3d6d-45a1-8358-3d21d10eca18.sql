@@ -0,0 +1,184 @@
+-- Polygon service areas drawn by providers on the map. A provider with at
+-- least one area covers exactly the requests inside their areas; providers
+-- without areas keep using their service radius.
+CREATE OR REPLACE FUNCTION public.polygon_from_path(_path JSONB)
+RETURNS extensions.geography
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT extensions.ST_MakePolygon(
+    extensions.ST_MakeLine(points.geoms || points.geoms[1])
+  )::extensions.geography
+  FROM (
+    SELECT array_agg(
+      extensions.ST_SetSRID(
+        extensions.ST_MakePoint((point->>'lng')::DOUBLE PRECISION, (point->>'lat')::DOUBLE PRECISION),
+        4326
+      )
+      ORDER BY ordinality
+    ) AS geoms
+    FROM jsonb_array_elements(_path) WITH ORDINALITY AS vertices(point, ordinality)
+  ) points
+$$;
+
+CREATE TABLE public.provider_service_areas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES public.provider_profiles(id) ON DELETE CASCADE,
+  -- Vertices as drawn: [{"lat": ..., "lng": ...}, ...], not closed
+  path JSONB NOT NULL CHECK (jsonb_typeof(path) = 'array' AND jsonb_array_length(path) >= 3),
+  area extensions.geography(Polygon, 4326) GENERATED ALWAYS AS (public.polygon_from_path(path)) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_provider_service_areas_provider ON public.provider_service_areas(provider_id);
+CREATE INDEX idx_provider_service_areas_area ON public.provider_service_areas USING GIST (area);
+
+ALTER TABLE public.provider_service_areas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Providers can manage their service areas"
+ON public.provider_service_areas
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.provider_profiles
+    WHERE provider_profiles.id = provider_service_areas.provider_id
+      AND provider_profiles.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.provider_profiles
+    WHERE provider_profiles.id = provider_service_areas.provider_id
+      AND provider_profiles.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view service areas"
+ON public.provider_service_areas
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Distance in km from the request to the nearest of the provider's areas (0
+-- inside one), NULL for providers without areas
+CREATE OR REPLACE FUNCTION public.provider_service_area_distance_km(_provider_id UUID, _request_id UUID)
+RETURNS DOUBLE PRECISION
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT min(ST_Distance(a.area, sr.location)) / 1000
+  FROM public.provider_service_areas a
+  JOIN public.service_requests sr ON sr.id = _request_id
+  WHERE a.provider_id = _provider_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.provider_service_area_distance_km(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Return type changes, so the function has to be recreated. Providers whose
+-- areas are within the radius extension of the request are found whatever the
+-- distance to their base.
+DROP FUNCTION IF EXISTS public.find_provider_candidates(UUID, NUMERIC, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.find_provider_candidates(
+  _request_id UUID,
+  _search_radius_km NUMERIC DEFAULT NULL,
+  _radius_extension_km NUMERIC DEFAULT 0
+)
+RETURNS TABLE (
+  provider_id UUID,
+  user_id UUID,
+  provider_name TEXT,
+  is_available BOOLEAN,
+  on_shift BOOLEAN,
+  service_radius_km NUMERIC,
+  distance_km DOUBLE PRECISION,
+  service_area_distance_km DOUBLE PRECISION,
+  rating NUMERIC,
+  active_jobs INTEGER,
+  max_active_jobs INTEGER,
+  last_assigned_at TIMESTAMP WITH TIME ZONE,
+  previously_offered BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT public.candidate_search_radius_km(
+      _request_id, _search_radius_km, _radius_extension_km
+    ) AS radius_km
+  )
+  SELECT
+    pp.id,
+    pp.user_id,
+    p.name,
+    COALESCE(pp.is_available, false),
+    public.provider_is_on_shift(pp.id),
+    COALESCE(pp.service_area_radius_km, 10),
+    public.provider_distance_km(pp.id, r.id),
+    areas.distance_km,
+    pp.rating,
+    public.provider_open_jobs(pp.id),
+    pp.max_active_jobs,
+    (SELECT max(sr.assigned_at) FROM public.service_requests sr WHERE sr.provider_id = pp.id),
+    public.provider_previously_offered(pp.id, r.id)
+  FROM public.service_requests r
+  CROSS JOIN bounds b
+  JOIN public.provider_categories pc ON pc.category_id = r.category_id
+  JOIN public.provider_profiles pp ON pp.id = pc.provider_profile_id
+  JOIN public.profiles p ON p.id = pp.user_id
+  CROSS JOIN LATERAL (
+    SELECT public.provider_service_area_distance_km(pp.id, r.id) AS distance_km
+  ) areas
+  WHERE r.id = _request_id
+    AND (
+      public.provider_within_km(pp.id, r.id, b.radius_km)
+      OR areas.distance_km <= COALESCE(_radius_extension_km, 0)
+    )
+  ORDER BY 7
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_provider_candidates(UUID, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Pending requests a provider covers, most urgent first: inside one of their
+-- areas, or within their radius if they have none. Emergencies are matched
+-- within the emergency search radius as well.
+CREATE OR REPLACE FUNCTION public.find_pending_requests_near(_provider_id UUID)
+RETURNS SETOF public.service_requests
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT sr.*
+  FROM public.provider_profiles pp
+  JOIN public.profiles p ON p.id = pp.user_id
+  JOIN public.service_requests sr
+    ON sr.status = 'pending'
+    AND sr.provider_id IS NULL
+  WHERE pp.id = _provider_id
+    AND sr.category_id IN (
+      SELECT category_id FROM public.provider_categories WHERE provider_profile_id = pp.id
+    )
+    AND (
+      EXISTS (
+        SELECT 1 FROM public.provider_service_areas a
+        WHERE a.provider_id = pp.id AND ST_Covers(a.area, sr.location)
+      )
+      OR (
+        NOT EXISTS (SELECT 1 FROM public.provider_service_areas a WHERE a.provider_id = pp.id)
+        AND ST_DWithin(sr.location, p.location, COALESCE(pp.service_area_radius_km, 10) * 1000)
+      )
+      OR (
+        sr.priority = 'emergency'
+        AND ST_DWithin(
+          sr.location,
+          p.location,
+          (public.app_setting('emergency_search_radius_km') #>> '{}')::NUMERIC * 1000
+        )
+      )
+    )
+  ORDER BY sr.priority DESC, sr.created_at
+$$;
@@ -0,0 +1,282 @@
+-- Named service bases (home, shop, ...) per provider, each with its own
+-- radius. Matching measures distance from the closest base. Providers who
+-- haven't set up any bases fall back to their profile location and
+-- service_area_radius_km (see provider_bases).
+CREATE TABLE public.provider_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES public.provider_profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  location_lat NUMERIC NOT NULL,
+  location_lng NUMERIC NOT NULL,
+  radius_km DECIMAL(10, 2) NOT NULL DEFAULT 10.0 CHECK (radius_km > 0),
+  location extensions.geography(Point, 4326)
+    GENERATED ALWAYS AS (
+      extensions.ST_SetSRID(extensions.ST_MakePoint(location_lng, location_lat), 4326)::extensions.geography
+    ) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_provider_locations_provider ON public.provider_locations(provider_id);
+CREATE INDEX idx_provider_locations_location ON public.provider_locations USING GIST (location);
+
+ALTER TABLE public.provider_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Providers can manage their locations"
+ON public.provider_locations
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.provider_profiles
+    WHERE provider_profiles.id = provider_locations.provider_id
+      AND provider_profiles.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.provider_profiles
+    WHERE provider_profiles.id = provider_locations.provider_id
+      AND provider_profiles.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view provider locations"
+ON public.provider_locations
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_provider_locations_updated_at
+BEFORE UPDATE ON public.provider_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Existing providers start with their profile location as their only base
+INSERT INTO public.provider_locations (provider_id, name, location_lat, location_lng, radius_km)
+SELECT pp.id, 'Home', p.location_lat, p.location_lng, COALESCE(pp.service_area_radius_km, 10)
+FROM public.provider_profiles pp
+JOIN public.profiles p ON p.id = pp.user_id
+WHERE p.location_lat IS NOT NULL AND p.location_lng IS NOT NULL;
+
+-- Every base matching works from: a provider's locations, or their profile
+-- location when they have none
+CREATE VIEW public.provider_bases AS
+  SELECT pl.provider_id, pl.name, pl.location, pl.radius_km
+  FROM public.provider_locations pl
+  UNION ALL
+  SELECT pp.id, 'Profile location', p.location, COALESCE(pp.service_area_radius_km, 10)
+  FROM public.provider_profiles pp
+  JOIN public.profiles p ON p.id = pp.user_id
+  WHERE p.location IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.provider_locations pl WHERE pl.provider_id = pp.id);
+
+REVOKE ALL ON public.provider_bases FROM PUBLIC, anon, authenticated;
+
+-- The search radius and the distance checks now work from bases
+CREATE OR REPLACE FUNCTION public.candidate_search_radius_km(
+  _request_id UUID,
+  _search_radius_km NUMERIC DEFAULT NULL,
+  _radius_extension_km NUMERIC DEFAULT 0
+)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    COALESCE(
+      _search_radius_km,
+      (SELECT max(radius_km) FROM public.provider_bases)
+    ) + COALESCE(_radius_extension_km, 0),
+    CASE WHEN sr.priority = 'emergency'
+      THEN (public.app_setting('emergency_search_radius_km') #>> '{}')::NUMERIC
+    END
+  )
+  FROM public.service_requests sr
+  WHERE sr.id = _request_id
+$$;
+
+-- Whether any of the provider's bases lies within _radius_km of the request
+CREATE OR REPLACE FUNCTION public.provider_within_km(
+  _provider_id UUID,
+  _request_id UUID,
+  _radius_km NUMERIC
+)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.provider_bases pb
+    JOIN public.service_requests sr ON sr.id = _request_id
+    WHERE pb.provider_id = _provider_id
+      AND ST_DWithin(pb.location, sr.location, _radius_km * 1000)
+  )
+$$;
+
+-- The provider's base closest to the request, no row for providers without
+-- bases
+CREATE OR REPLACE FUNCTION public.provider_nearest_base(_provider_id UUID, _request_id UUID)
+RETURNS TABLE (
+  name TEXT,
+  radius_km NUMERIC,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT pb.name, pb.radius_km, ST_Distance(pb.location, sr.location) / 1000
+  FROM public.provider_bases pb
+  JOIN public.service_requests sr ON sr.id = _request_id
+  WHERE pb.provider_id = _provider_id
+  ORDER BY pb.location <-> sr.location
+  LIMIT 1
+$$;
+
+-- How far in km the request lies outside the radius of the provider's nearest
+-- base (0 when some base covers it), NULL for providers without bases
+CREATE OR REPLACE FUNCTION public.provider_outside_radius_km(_provider_id UUID, _request_id UUID)
+RETURNS DOUBLE PRECISION
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT min(GREATEST(ST_Distance(pb.location, sr.location) / 1000 - pb.radius_km, 0))
+  FROM public.provider_bases pb
+  JOIN public.service_requests sr ON sr.id = _request_id
+  WHERE pb.provider_id = _provider_id
+$$;
+
+-- Superseded by provider_nearest_base
+DROP FUNCTION IF EXISTS public.provider_distance_km(UUID, UUID);
+
+REVOKE EXECUTE ON FUNCTION public.provider_nearest_base(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.provider_outside_radius_km(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Return type changes, so the function has to be recreated. distance_km,
+-- base_name and service_radius_km describe the closest base;
+-- outside_radius_km is how far the request lies outside the nearest base's
+-- radius (0 when some base covers it). All four are NULL for providers
+-- without a base or profile location, who are only found through their areas.
+DROP FUNCTION IF EXISTS public.find_provider_candidates(UUID, NUMERIC, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.find_provider_candidates(
+  _request_id UUID,
+  _search_radius_km NUMERIC DEFAULT NULL,
+  _radius_extension_km NUMERIC DEFAULT 0
+)
+RETURNS TABLE (
+  provider_id UUID,
+  user_id UUID,
+  provider_name TEXT,
+  is_available BOOLEAN,
+  on_shift BOOLEAN,
+  base_name TEXT,
+  service_radius_km NUMERIC,
+  distance_km DOUBLE PRECISION,
+  outside_radius_km DOUBLE PRECISION,
+  service_area_distance_km DOUBLE PRECISION,
+  rating NUMERIC,
+  active_jobs INTEGER,
+  max_active_jobs INTEGER,
+  last_assigned_at TIMESTAMP WITH TIME ZONE,
+  previously_offered BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT public.candidate_search_radius_km(
+      _request_id, _search_radius_km, _radius_extension_km
+    ) AS radius_km
+  )
+  SELECT
+    pp.id,
+    pp.user_id,
+    p.name,
+    COALESCE(pp.is_available, false),
+    public.provider_is_on_shift(pp.id),
+    nearest.name,
+    nearest.radius_km,
+    nearest.distance_km,
+    public.provider_outside_radius_km(pp.id, r.id),
+    areas.distance_km,
+    pp.rating,
+    public.provider_open_jobs(pp.id),
+    pp.max_active_jobs,
+    (SELECT max(sr.assigned_at) FROM public.service_requests sr WHERE sr.provider_id = pp.id),
+    public.provider_previously_offered(pp.id, r.id)
+  FROM public.service_requests r
+  CROSS JOIN bounds b
+  JOIN public.provider_categories pc ON pc.category_id = r.category_id
+  JOIN public.provider_profiles pp ON pp.id = pc.provider_profile_id
+  JOIN public.profiles p ON p.id = pp.user_id
+  LEFT JOIN LATERAL public.provider_nearest_base(pp.id, r.id) nearest ON true
+  CROSS JOIN LATERAL (
+    SELECT public.provider_service_area_distance_km(pp.id, r.id) AS distance_km
+  ) areas
+  WHERE r.id = _request_id
+    AND (
+      public.provider_within_km(pp.id, r.id, b.radius_km)
+      OR areas.distance_km <= COALESCE(_radius_extension_km, 0)
+    )
+  ORDER BY COALESCE(nearest.distance_km, areas.distance_km)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_provider_candidates(UUID, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Pending requests a provider covers, most urgent first: inside one of their
+-- areas, or within the radius of one of their bases if they have no areas.
+-- Emergencies are matched within the emergency search radius of any base.
+CREATE OR REPLACE FUNCTION public.find_pending_requests_near(_provider_id UUID)
+RETURNS SETOF public.service_requests
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT sr.*
+  FROM public.provider_profiles pp
+  JOIN public.service_requests sr
+    ON sr.status = 'pending'
+    AND sr.provider_id IS NULL
+  WHERE pp.id = _provider_id
+    AND sr.category_id IN (
+      SELECT category_id FROM public.provider_categories WHERE provider_profile_id = pp.id
+    )
+    AND (
+      EXISTS (
+        SELECT 1 FROM public.provider_service_areas a
+        WHERE a.provider_id = pp.id AND ST_Covers(a.area, sr.location)
+      )
+      OR (
+        NOT EXISTS (SELECT 1 FROM public.provider_service_areas a WHERE a.provider_id = pp.id)
+        AND EXISTS (
+          SELECT 1 FROM public.provider_bases pb
+          WHERE pb.provider_id = pp.id
+            AND ST_DWithin(sr.location, pb.location, pb.radius_km * 1000)
+        )
+      )
+      OR (
+        sr.priority = 'emergency'
+        AND EXISTS (
+          SELECT 1 FROM public.provider_bases pb
+          WHERE pb.provider_id = pp.id
+            AND ST_DWithin(
+              sr.location,
+              pb.location,
+              (public.app_setting('emergency_search_radius_km') #>> '{}')::NUMERIC * 1000
+            )
+        )
+      )
+    )
+  ORDER BY sr.priority DESC, sr.created_at
+$$;
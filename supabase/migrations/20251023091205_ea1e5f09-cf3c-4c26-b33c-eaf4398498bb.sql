@@ -0,0 +1,34 @@
+-- Client-generated idempotency key so a retried CreateRequest submission
+-- finds the row it already created instead of inserting a second job
+ALTER TABLE public.service_requests
+  ADD COLUMN idempotency_key UUID;
+
+CREATE UNIQUE INDEX idx_service_requests_idempotency_key
+  ON public.service_requests(resident_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- Results of edge function calls made with an idempotency key. A replay of
+-- the same key returns the stored response instead of running again.
+-- response is NULL while the first call is still in flight.
+CREATE TABLE public.idempotency_keys (
+  function_name TEXT NOT NULL,
+  key UUID NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  request_id UUID REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  response_status INTEGER,
+  response JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (function_name, key)
+);
+
+CREATE INDEX idx_idempotency_keys_created_at ON public.idempotency_keys(created_at);
+
+-- Only the edge functions (service role) read and write this table
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Retries happen within minutes; a day is plenty
+SELECT cron.schedule(
+  'purge-idempotency-keys',
+  '17 * * * *',
+  $$DELETE FROM public.idempotency_keys WHERE created_at < now() - interval '1 day'$$
+);
@@ -0,0 +1,189 @@
+-- Status history picks up an optional note set for the current transaction
+-- with set_config('app.status_change_note', ..., true). Provider changes
+-- are logged too, so a reassignment between two providers shows up even
+-- though the status stays 'assigned'.
+CREATE OR REPLACE FUNCTION public.log_request_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT')
+    OR (OLD.status IS DISTINCT FROM NEW.status)
+    OR (OLD.provider_id IS DISTINCT FROM NEW.provider_id AND NEW.provider_id IS NOT NULL AND OLD.provider_id IS NOT NULL) THEN
+    INSERT INTO public.request_status_history (request_id, status, changed_by, notes)
+    VALUES (
+      NEW.id,
+      NEW.status,
+      COALESCE(auth.uid(), NEW.resident_id),
+      NULLIF(current_setting('app.status_change_note', true), '')
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Force-assign or reassign a request to a provider, bypassing offers and
+-- the provider's availability, shift and capacity. Admins only; the note
+-- is mandatory and ends up in request_status_history.
+CREATE OR REPLACE FUNCTION public.admin_assign_request(
+  _request_id UUID,
+  _provider_id UUID,
+  _notes TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+  _provider public.provider_profiles%ROWTYPE;
+  _previous_user_id UUID;
+  _provider_name TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only admins can assign requests');
+  END IF;
+
+  IF COALESCE(btrim(_notes), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A note is required');
+  END IF;
+
+  SELECT * INTO _request FROM public.service_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Request not found');
+  END IF;
+
+  IF _request.status NOT IN ('pending', 'offered', 'assigned') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only pending, offered or assigned requests can be assigned');
+  END IF;
+
+  IF _request.provider_id = _provider_id AND _request.status = 'assigned' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Request is already assigned to this provider');
+  END IF;
+
+  SELECT * INTO _provider FROM public.provider_profiles WHERE id = _provider_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Provider not found');
+  END IF;
+
+  SELECT user_id INTO _previous_user_id
+  FROM public.provider_profiles
+  WHERE id = _request.provider_id AND id <> _provider_id;
+
+  -- Withdraw whatever the previous provider had open on this request
+  UPDATE public.request_offers
+  SET status = 'released', responded_at = now()
+  WHERE request_id = _request_id
+    AND status IN ('pending', 'accepted');
+
+  INSERT INTO public.request_offers (request_id, provider_id, status, responded_at)
+  VALUES (_request_id, _provider_id, 'accepted', now());
+
+  PERFORM set_config('app.status_change_note', _notes, true);
+
+  UPDATE public.service_requests
+  SET status = 'assigned', provider_id = _provider_id, assigned_at = now()
+  WHERE id = _request_id;
+
+  PERFORM set_config('app.status_change_note', '', true);
+
+  SELECT name INTO _provider_name FROM public.profiles WHERE id = _provider.user_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  VALUES
+    (
+      _request.resident_id,
+      'Service Request Assigned',
+      'An administrator assigned your request to ' || COALESCE(_provider_name, 'a service provider'),
+      'success',
+      _request_id
+    ),
+    (
+      _provider.user_id,
+      'Job Assigned',
+      'An administrator assigned a service request to you: ' || _notes,
+      'info',
+      _request_id
+    );
+
+  IF _previous_user_id IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+    VALUES (
+      _previous_user_id,
+      'Job Reassigned',
+      'An administrator reassigned this job to another provider: ' || _notes,
+      'warning',
+      _request_id
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'provider_id', _provider_id);
+END;
+$$;
+
+-- Take the provider off an offered or assigned request and put it back in
+-- the pending pool, where the sweeper picks it up again
+CREATE OR REPLACE FUNCTION public.admin_unassign_request(_request_id UUID, _notes TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+  _provider_user_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only admins can unassign requests');
+  END IF;
+
+  IF COALESCE(btrim(_notes), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A note is required');
+  END IF;
+
+  SELECT * INTO _request FROM public.service_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR _request.status NOT IN ('offered', 'assigned') OR _request.provider_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Request has no provider to unassign');
+  END IF;
+
+  SELECT user_id INTO _provider_user_id FROM public.provider_profiles WHERE id = _request.provider_id;
+
+  UPDATE public.request_offers
+  SET status = 'released', responded_at = now()
+  WHERE request_id = _request_id
+    AND status IN ('pending', 'accepted');
+
+  PERFORM set_config('app.status_change_note', _notes, true);
+
+  UPDATE public.service_requests
+  SET status = 'pending', provider_id = NULL, assigned_at = NULL
+  WHERE id = _request_id;
+
+  PERFORM set_config('app.status_change_note', '', true);
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  VALUES
+    (
+      _request.resident_id,
+      'Provider Unassigned',
+      'An administrator removed the provider from your request. We are finding another provider.',
+      'warning',
+      _request_id
+    ),
+    (
+      _provider_user_id,
+      'Job Unassigned',
+      'An administrator removed you from this job: ' || _notes,
+      'warning',
+      _request_id
+    );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
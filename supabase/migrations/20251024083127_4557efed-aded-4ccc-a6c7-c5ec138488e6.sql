@@ -0,0 +1,117 @@
+-- Allowed request status changes per actor. Mirrors REQUEST_TRANSITIONS in
+-- src/lib/request-status.ts, which decides the action buttons in the UI.
+--
+-- "system" covers the service role, cron jobs and the SECURITY DEFINER
+-- functions (offer responses, releases, admin assignment), which check
+-- their caller themselves before changing a request.
+CREATE TABLE public.request_status_transitions (
+  from_status public.request_status NOT NULL,
+  to_status public.request_status NOT NULL,
+  actor TEXT NOT NULL CHECK (actor IN ('resident', 'provider', 'admin', 'system')),
+  PRIMARY KEY (from_status, to_status, actor)
+);
+
+ALTER TABLE public.request_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view request status transitions"
+ON public.request_status_transitions
+FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO public.request_status_transitions (from_status, to_status, actor) VALUES
+  ('pending', 'cancelled', 'resident'),
+
+  ('assigned', 'in_progress', 'provider'),
+  ('in_progress', 'completed', 'provider'),
+
+  ('pending', 'cancelled', 'admin'),
+  ('offered', 'cancelled', 'admin'),
+  ('assigned', 'cancelled', 'admin'),
+  ('assigned', 'in_progress', 'admin'),
+  ('in_progress', 'completed', 'admin'),
+  ('in_progress', 'cancelled', 'admin'),
+
+  ('pending', 'offered', 'system'),
+  ('pending', 'assigned', 'system'),
+  ('offered', 'pending', 'system'),
+  ('offered', 'assigned', 'system'),
+  ('assigned', 'pending', 'system');
+
+-- Who is changing the request, from the point of view of the table above.
+-- Not SECURITY DEFINER: current_user has to be the caller's role so calls
+-- from inside SECURITY DEFINER functions can be told apart.
+CREATE OR REPLACE FUNCTION public.request_status_actor(_resident_id UUID, _provider_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN 'system';
+  END IF;
+
+  IF public.has_role(auth.uid(), 'admin') THEN
+    RETURN 'admin';
+  END IF;
+
+  IF _resident_id = auth.uid() THEN
+    RETURN 'resident';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.provider_profiles
+    WHERE id = _provider_id AND user_id = auth.uid()
+  ) THEN
+    RETURN 'provider';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_request_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _actor TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    _actor := public.request_status_actor(NEW.resident_id, NEW.provider_id);
+
+    IF _actor IS DISTINCT FROM 'system' AND NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New requests must start as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  _actor := public.request_status_actor(OLD.resident_id, OLD.provider_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.request_status_transitions
+    WHERE from_status = OLD.status
+      AND to_status = NEW.status
+      AND actor = _actor
+  ) THEN
+    RAISE EXCEPTION 'Status change from % to % is not allowed for %',
+      OLD.status, NEW.status, COALESCE(_actor, 'this user')
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_request_status_transition
+BEFORE INSERT OR UPDATE OF status ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_request_status_transition();
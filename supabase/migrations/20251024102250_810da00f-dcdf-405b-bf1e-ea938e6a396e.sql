@@ -0,0 +1,3 @@
+-- New request state: work on the job has started but is on hold.
+-- Added in its own migration because a new enum value can't be used in the same transaction.
+ALTER TYPE public.request_status ADD VALUE IF NOT EXISTS 'paused' AFTER 'in_progress';
@@ -0,0 +1,134 @@
+-- When the provider started work. Pauses and their reasons live in
+-- request_status_history; request_work_durations adds them up.
+ALTER TABLE public.service_requests
+  ADD COLUMN started_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.update_request_timestamps()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'assigned' AND NEW.assigned_at IS NULL THEN
+    NEW.assigned_at = now();
+  ELSIF NEW.status = 'in_progress' AND NEW.started_at IS NULL THEN
+    NEW.started_at = now();
+  ELSIF NEW.status = 'completed' AND NEW.completed_at IS NULL THEN
+    NEW.completed_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+INSERT INTO public.request_status_transitions (from_status, to_status, actor) VALUES
+  ('in_progress', 'paused', 'provider'),
+  ('paused', 'in_progress', 'provider'),
+
+  ('in_progress', 'paused', 'admin'),
+  ('paused', 'in_progress', 'admin'),
+  ('paused', 'cancelled', 'admin');
+
+-- Paused jobs still belong to the provider
+CREATE OR REPLACE FUNCTION public.provider_open_jobs(_provider_id UUID)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.service_requests
+  WHERE provider_id = _provider_id
+    AND status IN ('offered', 'assigned', 'in_progress', 'paused')
+$$;
+
+-- Change a request's status with a note recorded in its history. Runs as
+-- the caller, so RLS and the status transition rules apply as they would
+-- to a direct update, except that setting the status a request already has
+-- is an error rather than a no-op. Pausing and resuming need a reason.
+CREATE OR REPLACE FUNCTION public.transition_request(
+  _request_id UUID,
+  _status public.request_status,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _previous_status public.request_status;
+  _updated INT;
+BEGIN
+  SELECT status INTO _previous_status
+  FROM public.service_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Request not found');
+  END IF;
+
+  IF _status = _previous_status THEN
+    RAISE EXCEPTION 'Status change from % to % is not allowed', _previous_status, _status
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(btrim(_notes), '') = ''
+    AND (_status = 'paused' OR (_previous_status = 'paused' AND _status = 'in_progress')) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A reason is required to pause or resume a job');
+  END IF;
+
+  PERFORM set_config('app.status_change_note', COALESCE(btrim(_notes), ''), true);
+
+  UPDATE public.service_requests
+  SET status = _status
+  WHERE id = _request_id;
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+
+  PERFORM set_config('app.status_change_note', '', true);
+
+  -- RLS hides the row from the update if the caller may not change it
+  IF _updated = 0 THEN
+    RETURN jsonb_build_object('success', false, 'message', 'You cannot update this request');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'status', _status);
+END;
+$$;
+
+-- Time on site per job for reporting. Paused time is the sum of the gaps
+-- between each 'paused' history row and the status change that followed.
+CREATE VIEW public.request_work_durations
+WITH (security_invoker = true)
+AS
+WITH history AS (
+  SELECT
+    request_id,
+    status,
+    created_at,
+    lead(created_at) OVER (PARTITION BY request_id ORDER BY created_at) AS next_change_at
+  FROM public.request_status_history
+),
+paused AS (
+  SELECT request_id, sum(COALESCE(next_change_at, now()) - created_at) AS paused_for
+  FROM history
+  WHERE status = 'paused'
+  GROUP BY request_id
+)
+SELECT
+  sr.id AS request_id,
+  sr.provider_id,
+  sr.category_id,
+  sr.status,
+  sr.started_at,
+  sr.completed_at,
+  EXTRACT(EPOCH FROM COALESCE(sr.completed_at, now()) - sr.started_at)::INTEGER AS elapsed_seconds,
+  EXTRACT(EPOCH FROM COALESCE(p.paused_for, interval '0'))::INTEGER AS paused_seconds,
+  EXTRACT(EPOCH FROM COALESCE(sr.completed_at, now()) - sr.started_at - COALESCE(p.paused_for, interval '0'))::INTEGER AS working_seconds
+FROM public.service_requests sr
+LEFT JOIN paused p ON p.request_id = sr.id
+WHERE sr.started_at IS NOT NULL;
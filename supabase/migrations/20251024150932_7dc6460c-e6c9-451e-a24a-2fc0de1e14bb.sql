@@ -0,0 +1,252 @@
+-- Resident cancellation. Residents cancel through cancel_request, which
+-- applies cancellation_policy and records a reason code.
+INSERT INTO public.app_settings (key, value, description) VALUES
+  (
+    'cancellation_policy',
+    '{"cancellable_statuses": ["pending", "offered", "assigned"], "free_cancellation_minutes": 30, "allow_late_cancellation": true, "notify_provider": true}',
+    'When residents may cancel: statuses they can cancel from, minutes after assignment a cancellation is free, whether later cancellations are allowed (flagged as late) and whether the provider is notified'
+  );
+
+ALTER TABLE public.service_requests
+  ADD COLUMN cancellation_reason TEXT CHECK (cancellation_reason IN (
+    'no_longer_needed',
+    'found_another_provider',
+    'took_too_long',
+    'schedule_conflict',
+    'too_expensive',
+    'other'
+  )),
+  ADD COLUMN cancellation_notes TEXT,
+  ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN late_cancellation BOOLEAN NOT NULL DEFAULT false;
+
+-- SECURITY DEFINER functions acting for a user can name the role they act
+-- as with set_config('app.status_actor', ..., true); otherwise they count
+-- as the system.
+CREATE OR REPLACE FUNCTION public.request_status_actor(_resident_id UUID, _provider_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN COALESCE(NULLIF(current_setting('app.status_actor', true), ''), 'system');
+  END IF;
+
+  IF public.has_role(auth.uid(), 'admin') THEN
+    RETURN 'admin';
+  END IF;
+
+  IF _resident_id = auth.uid() THEN
+    RETURN 'resident';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.provider_profiles
+    WHERE id = _provider_id AND user_id = auth.uid()
+  ) THEN
+    RETURN 'provider';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+INSERT INTO public.request_status_transitions (from_status, to_status, actor) VALUES
+  ('offered', 'cancelled', 'resident'),
+  ('assigned', 'cancelled', 'resident');
+
+-- Residents must give a reason, even when cancelling a pending request
+-- with a direct update
+CREATE OR REPLACE FUNCTION public.enforce_request_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _actor TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    _actor := public.request_status_actor(NEW.resident_id, NEW.provider_id);
+
+    IF _actor IS DISTINCT FROM 'system' AND NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New requests must start as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  _actor := public.request_status_actor(OLD.resident_id, OLD.provider_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.request_status_transitions
+    WHERE from_status = OLD.status
+      AND to_status = NEW.status
+      AND actor = _actor
+  ) THEN
+    RAISE EXCEPTION 'Status change from % to % is not allowed for %',
+      OLD.status, NEW.status, COALESCE(_actor, 'this user')
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.status = 'cancelled' AND _actor = 'resident' AND NEW.cancellation_reason IS NULL THEN
+    RAISE EXCEPTION 'A cancellation reason is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Ask assign-pending-requests to fill a provider's free capacity
+CREATE OR REPLACE FUNCTION public.dispatch_provider_matching(_provider_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.invoke_edge_function(
+    'assign-pending-requests',
+    jsonb_build_object('userId', _provider_user_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dispatch_provider_matching(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.dispatch_shift_starts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _provider RECORD;
+  _count INTEGER := 0;
+BEGIN
+  FOR _provider IN
+    SELECT DISTINCT pp.id, pp.user_id
+    FROM public.provider_profiles pp
+    JOIN public.provider_working_hours h ON h.provider_id = pp.id
+    CROSS JOIN LATERAL (SELECT now() AT TIME ZONE pp.timezone AS local_now) l
+    WHERE COALESCE(pp.is_available, false)
+      AND h.day_of_week = EXTRACT(DOW FROM l.local_now)
+      AND l.local_now::DATE + h.start_time > l.local_now - INTERVAL '5 minutes'
+      AND l.local_now::DATE + h.start_time <= l.local_now
+      AND public.provider_is_on_shift(pp.id)
+  LOOP
+    PERFORM public.dispatch_provider_matching(_provider.user_id);
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+-- Cancel a request as its resident. Cancelling an assigned job is free for
+-- free_cancellation_minutes after assignment; later it is either refused
+-- or flagged as late, depending on the policy. The provider's slot goes
+-- straight back to matching.
+CREATE OR REPLACE FUNCTION public.cancel_request(
+  _request_id UUID,
+  _reason TEXT,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+  _policy JSONB := COALESCE(public.app_setting('cancellation_policy'), '{}'::jsonb);
+  _free_minutes NUMERIC := COALESCE((_policy->>'free_cancellation_minutes')::NUMERIC, 30);
+  _late BOOLEAN := false;
+  _provider_user_id UUID;
+BEGIN
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A cancellation reason is required');
+  END IF;
+
+  IF _reason = 'other' AND COALESCE(btrim(_notes), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Please describe why you are cancelling');
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.service_requests
+  WHERE id = _request_id AND resident_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Request not found');
+  END IF;
+
+  IF NOT COALESCE(_policy->'cancellable_statuses', '["pending"]'::jsonb) ? _request.status::TEXT THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Requests that are ' || replace(_request.status::TEXT, '_', ' ') || ' can no longer be cancelled'
+    );
+  END IF;
+
+  IF _request.status = 'assigned'
+    AND _request.assigned_at < now() - make_interval(mins => _free_minutes::INT) THEN
+    IF NOT COALESCE((_policy->>'allow_late_cancellation')::BOOLEAN, true) THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', 'The cancellation window has passed. Please contact support to cancel this job.'
+      );
+    END IF;
+    _late := true;
+  END IF;
+
+  SELECT user_id INTO _provider_user_id FROM public.provider_profiles WHERE id = _request.provider_id;
+
+  UPDATE public.request_offers
+  SET status = 'released', responded_at = now()
+  WHERE request_id = _request_id
+    AND status IN ('pending', 'accepted');
+
+  PERFORM set_config('app.status_actor', 'resident', true);
+  PERFORM set_config(
+    'app.status_change_note',
+    replace(_reason, '_', ' ') || COALESCE(': ' || NULLIF(btrim(_notes), ''), ''),
+    true
+  );
+
+  UPDATE public.service_requests
+  SET status = 'cancelled',
+      cancellation_reason = _reason,
+      cancellation_notes = NULLIF(btrim(_notes), ''),
+      cancelled_at = now(),
+      late_cancellation = _late
+  WHERE id = _request_id;
+
+  PERFORM set_config('app.status_actor', '', true);
+  PERFORM set_config('app.status_change_note', '', true);
+
+  IF _provider_user_id IS NOT NULL THEN
+    IF COALESCE((_policy->>'notify_provider')::BOOLEAN, true) THEN
+      INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+      VALUES (
+        _provider_user_id,
+        'Job Cancelled',
+        'The resident cancelled this job (' || replace(_reason, '_', ' ') || ')',
+        'warning',
+        _request_id
+      );
+    END IF;
+
+    -- The freed slot can take another pending request right away
+    PERFORM public.dispatch_provider_matching(_provider_user_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'late', _late);
+END;
+$$;
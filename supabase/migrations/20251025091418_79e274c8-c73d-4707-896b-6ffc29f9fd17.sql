@@ -0,0 +1,139 @@
+-- Why a provider gave up a job they had accepted. Only set when the
+-- provider released the job themselves; offers released by admins or by a
+-- resident cancelling leave it NULL, so they don't count against the
+-- provider.
+ALTER TABLE public.request_offers
+  ADD COLUMN release_reason TEXT CHECK (release_reason IN (
+    'schedule_conflict',
+    'too_far',
+    'missing_skills_or_parts',
+    'personal_emergency',
+    'other'
+  )),
+  ADD COLUMN release_notes TEXT;
+
+-- Ask assign-provider to run the matching engine for a request again
+CREATE OR REPLACE FUNCTION public.dispatch_request_matching(_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.invoke_edge_function(
+    'assign-provider',
+    jsonb_build_object('requestId', _request_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dispatch_request_matching(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The one-argument version is replaced by one that takes a reason
+DROP FUNCTION IF EXISTS public.release_request(UUID);
+
+-- Give up an accepted job. Called by the assigned provider. The request
+-- goes back to pending and cascades to the next queued candidate, or is
+-- matched again if the queue is empty. The released offer keeps this
+-- provider out of any later matching for it (find_provider_candidates
+-- reports them as previously_offered).
+CREATE OR REPLACE FUNCTION public.release_request(
+  _request_id UUID,
+  _reason TEXT,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+BEGIN
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A reason is required');
+  END IF;
+
+  IF _reason = 'other' AND COALESCE(btrim(_notes), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Please describe why you can''t take this job');
+  END IF;
+
+  SELECT sr.* INTO _request
+  FROM public.service_requests sr
+  JOIN public.provider_profiles pp ON pp.id = sr.provider_id
+  WHERE sr.id = _request_id
+    AND sr.status = 'assigned'
+    AND pp.user_id = auth.uid()
+  FOR UPDATE OF sr;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'No assigned job to release');
+  END IF;
+
+  UPDATE public.request_offers
+  SET status = 'released',
+      responded_at = now(),
+      release_reason = _reason,
+      release_notes = NULLIF(btrim(_notes), '')
+  WHERE request_id = _request_id
+    AND provider_id = _request.provider_id
+    AND status = 'accepted';
+
+  PERFORM set_config(
+    'app.status_change_note',
+    'Provider released the job: ' || replace(_reason, '_', ' ') || COALESCE(' - ' || NULLIF(btrim(_notes), ''), ''),
+    true
+  );
+
+  UPDATE public.service_requests
+  SET status = 'pending', provider_id = NULL, assigned_at = NULL
+  WHERE id = _request_id;
+
+  PERFORM set_config('app.status_change_note', '', true);
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  VALUES (
+    _request.resident_id,
+    'Provider Unassigned',
+    'Your service provider can no longer take this job. We are finding another provider.',
+    'warning',
+    _request_id
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM public.assignment_queues
+    WHERE request_id = _request_id AND cardinality(candidate_ids) > 0
+  ) THEN
+    PERFORM public.advance_offer(_request_id);
+  ELSE
+    PERFORM public.dispatch_request_matching(_request_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Offer and job history per provider, for reliability reporting. Offers
+-- released by admins or residents are left out of the accepted count.
+CREATE VIEW public.provider_reliability
+WITH (security_invoker = true)
+AS
+SELECT
+  pp.id AS provider_id,
+  count(o.id)::INTEGER AS offers_received,
+  count(o.id) FILTER (WHERE o.status = 'accepted' OR o.release_reason IS NOT NULL)::INTEGER AS offers_accepted,
+  count(o.id) FILTER (WHERE o.status = 'declined')::INTEGER AS offers_declined,
+  count(o.id) FILTER (WHERE o.status = 'expired')::INTEGER AS offers_expired,
+  count(o.id) FILTER (WHERE o.release_reason IS NOT NULL)::INTEGER AS jobs_released,
+  (
+    SELECT count(*)::INTEGER FROM public.service_requests sr
+    WHERE sr.provider_id = pp.id AND sr.status = 'completed'
+  ) AS jobs_completed,
+  round(
+    count(o.id) FILTER (WHERE o.release_reason IS NOT NULL)::NUMERIC
+      / NULLIF(count(o.id) FILTER (WHERE o.status = 'accepted' OR o.release_reason IS NOT NULL), 0),
+    3
+  ) AS release_rate
+FROM public.provider_profiles pp
+LEFT JOIN public.request_offers o ON o.provider_id = pp.id
+GROUP BY pp.id;
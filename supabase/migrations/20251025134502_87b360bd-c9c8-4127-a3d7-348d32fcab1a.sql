@@ -0,0 +1,5 @@
+-- New request states: the provider says the job is done and the resident
+-- has to confirm it, or the resident disputes it.
+-- Added in their own migration because a new enum value can't be used in the same transaction.
+ALTER TYPE public.request_status ADD VALUE IF NOT EXISTS 'pending_confirmation' AFTER 'paused';
+ALTER TYPE public.request_status ADD VALUE IF NOT EXISTS 'disputed' AFTER 'pending_confirmation';
@@ -0,0 +1,349 @@
+-- Two-phase completion. Providers move a job to pending_confirmation; the
+-- resident confirms it (completed) or disputes it. Unconfirmed jobs are
+-- confirmed automatically after completion_confirmation_hours.
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('completion_confirmation_hours', '48', 'Hours a resident has to confirm or dispute a finished job before it is confirmed automatically');
+
+ALTER TABLE public.service_requests
+  ADD COLUMN completion_requested_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.update_request_timestamps()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'assigned' AND NEW.assigned_at IS NULL THEN
+    NEW.assigned_at = now();
+  ELSIF NEW.status = 'in_progress' AND NEW.started_at IS NULL THEN
+    NEW.started_at = now();
+  ELSIF NEW.status = 'pending_confirmation' THEN
+    NEW.completion_requested_at = now();
+  ELSIF NEW.status = 'completed' AND NEW.completed_at IS NULL THEN
+    NEW.completed_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Providers can no longer close a job themselves
+DELETE FROM public.request_status_transitions
+WHERE from_status = 'in_progress' AND to_status = 'completed' AND actor = 'provider';
+
+INSERT INTO public.request_status_transitions (from_status, to_status, actor) VALUES
+  ('in_progress', 'pending_confirmation', 'provider'),
+
+  ('pending_confirmation', 'completed', 'resident'),
+  ('pending_confirmation', 'disputed', 'resident'),
+
+  ('pending_confirmation', 'completed', 'admin'),
+  ('disputed', 'completed', 'admin'),
+  ('disputed', 'in_progress', 'admin'),
+  ('disputed', 'cancelled', 'admin'),
+
+  ('pending_confirmation', 'completed', 'system');
+
+-- Disputed completions. Open disputes form the admin dispute queue.
+CREATE TABLE public.request_disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  raised_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL,
+  photos TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  outcome public.request_status,
+  resolution TEXT,
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_request_disputes_request ON public.request_disputes(request_id);
+CREATE INDEX idx_request_disputes_open ON public.request_disputes(created_at) WHERE status = 'open';
+
+-- Written by dispute_completion and resolve_dispute only
+ALTER TABLE public.request_disputes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view disputes on their requests"
+ON public.request_disputes
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE service_requests.id = request_disputes.request_id
+      AND (
+        service_requests.resident_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM public.provider_profiles
+          WHERE provider_profiles.id = service_requests.provider_id
+            AND provider_profiles.user_id = auth.uid()
+        )
+      )
+  )
+);
+
+CREATE POLICY "Admins can view all disputes"
+ON public.request_disputes
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Confirm a finished job as its resident. Residents can only update pending
+-- requests, so this goes through here instead of transition_request.
+CREATE OR REPLACE FUNCTION public.confirm_completion(_request_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO _request
+  FROM public.service_requests
+  WHERE id = _request_id AND resident_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND OR _request.status <> 'pending_confirmation' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This job is not waiting for your confirmation');
+  END IF;
+
+  PERFORM set_config('app.status_actor', 'resident', true);
+
+  UPDATE public.service_requests SET status = 'completed' WHERE id = _request_id;
+
+  PERFORM set_config('app.status_actor', '', true);
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  SELECT user_id, 'Completion Confirmed', 'The resident confirmed the job is done', 'success', _request_id
+  FROM public.provider_profiles
+  WHERE id = _request.provider_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Dispute a finished job as its resident
+CREATE OR REPLACE FUNCTION public.dispute_completion(
+  _request_id UUID,
+  _reason TEXT,
+  _photos TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+  _dispute_id UUID;
+BEGIN
+  IF COALESCE(btrim(_reason), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Please describe the problem');
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.service_requests
+  WHERE id = _request_id AND resident_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND OR _request.status <> 'pending_confirmation' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This job is not waiting for your confirmation');
+  END IF;
+
+  INSERT INTO public.request_disputes (request_id, raised_by, reason, photos)
+  VALUES (_request_id, auth.uid(), btrim(_reason), COALESCE(_photos, '{}'))
+  RETURNING id INTO _dispute_id;
+
+  PERFORM set_config('app.status_actor', 'resident', true);
+  PERFORM set_config('app.status_change_note', btrim(_reason), true);
+
+  UPDATE public.service_requests SET status = 'disputed' WHERE id = _request_id;
+
+  PERFORM set_config('app.status_actor', '', true);
+  PERFORM set_config('app.status_change_note', '', true);
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  SELECT user_id, 'Completion Disputed', 'The resident reported a problem with this job: ' || btrim(_reason), 'warning', _request_id
+  FROM public.provider_profiles
+  WHERE id = _request.provider_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  SELECT user_id, 'New Dispute', 'A resident disputed the completion of request ' || _request_id, 'error', _request_id
+  FROM public.user_roles
+  WHERE role = 'admin';
+
+  RETURN jsonb_build_object('success', true, 'dispute_id', _dispute_id);
+END;
+$$;
+
+-- Close an open dispute as an admin by moving the request on: completed
+-- (the work stands), in_progress (the provider goes back to fix it) or
+-- cancelled
+CREATE OR REPLACE FUNCTION public.resolve_dispute(
+  _dispute_id UUID,
+  _outcome public.request_status,
+  _resolution TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _dispute public.request_disputes%ROWTYPE;
+  _request public.service_requests%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only admins can resolve disputes');
+  END IF;
+
+  IF COALESCE(btrim(_resolution), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A resolution note is required');
+  END IF;
+
+  IF _outcome NOT IN ('completed', 'in_progress', 'cancelled') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Disputes resolve to completed, in progress or cancelled');
+  END IF;
+
+  SELECT * INTO _dispute FROM public.request_disputes WHERE id = _dispute_id;
+
+  IF NOT FOUND OR _dispute.status <> 'open' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Dispute is not open');
+  END IF;
+
+  SELECT * INTO _request FROM public.service_requests WHERE id = _dispute.request_id FOR UPDATE;
+
+  PERFORM set_config('app.status_actor', 'admin', true);
+  PERFORM set_config('app.status_change_note', btrim(_resolution), true);
+
+  UPDATE public.service_requests SET status = _outcome WHERE id = _request.id;
+
+  PERFORM set_config('app.status_actor', '', true);
+  PERFORM set_config('app.status_change_note', '', true);
+
+  UPDATE public.request_disputes
+  SET status = 'resolved',
+      outcome = _outcome,
+      resolution = btrim(_resolution),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = _dispute_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  SELECT recipient, 'Dispute Resolved', 'An administrator resolved the dispute: ' || btrim(_resolution), 'info', _request.id
+  FROM (
+    SELECT _request.resident_id AS recipient
+    UNION
+    SELECT user_id FROM public.provider_profiles WHERE id = _request.provider_id
+  ) recipients;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Confirm jobs the resident neither confirmed nor disputed in time
+CREATE OR REPLACE FUNCTION public.auto_confirm_completions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _window INTERVAL := make_interval(
+    hours => COALESCE((public.app_setting('completion_confirmation_hours') #>> '{}')::INT, 48)
+  );
+  _request public.service_requests%ROWTYPE;
+  _confirmed INTEGER := 0;
+BEGIN
+  PERFORM set_config('app.status_change_note', 'Confirmed automatically', true);
+
+  FOR _request IN
+    SELECT * FROM public.service_requests
+    WHERE status = 'pending_confirmation'
+      AND completion_requested_at < now() - _window
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.service_requests SET status = 'completed' WHERE id = _request.id;
+
+    INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+    SELECT recipient, 'Service Completed', 'The job was confirmed automatically', 'success', _request.id
+    FROM (
+      SELECT _request.resident_id AS recipient
+      UNION
+      SELECT user_id FROM public.provider_profiles WHERE id = _request.provider_id
+    ) recipients;
+
+    _confirmed := _confirmed + 1;
+  END LOOP;
+
+  PERFORM set_config('app.status_change_note', '', true);
+
+  RETURN _confirmed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.auto_confirm_completions() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'auto-confirm-completions',
+  '*/15 * * * *',
+  $$SELECT public.auto_confirm_completions()$$
+);
+
+-- Work ends when the provider marks the job done, not when the resident
+-- confirms it. Time waiting for the resident's confirmation or under
+-- dispute is not working time either; a job reopened after a dispute keeps
+-- running until it is marked done again.
+CREATE OR REPLACE VIEW public.request_work_durations
+WITH (security_invoker = true)
+AS
+WITH requests AS (
+  SELECT
+    sr.*,
+    CASE
+      WHEN sr.status IN ('in_progress', 'paused') THEN now()
+      ELSE COALESCE(sr.completion_requested_at, sr.completed_at, sr.cancelled_at, now())
+    END AS ended_at
+  FROM public.service_requests sr
+  WHERE sr.started_at IS NOT NULL
+),
+history AS (
+  SELECT
+    h.request_id,
+    h.status,
+    h.created_at,
+    LEAST(
+      COALESCE(lead(h.created_at) OVER (PARTITION BY h.request_id ORDER BY h.created_at), now()),
+      r.ended_at
+    ) AS next_change_at
+  FROM public.request_status_history h
+  JOIN requests r ON r.id = h.request_id
+),
+idle AS (
+  SELECT
+    request_id,
+    sum(next_change_at - created_at) FILTER (WHERE status = 'paused') AS paused_for,
+    sum(next_change_at - created_at) FILTER (WHERE status IN ('pending_confirmation', 'disputed')) AS awaiting_for
+  FROM history
+  WHERE next_change_at > created_at
+  GROUP BY request_id
+)
+SELECT
+  r.id AS request_id,
+  r.provider_id,
+  r.category_id,
+  r.status,
+  r.started_at,
+  r.completed_at,
+  EXTRACT(EPOCH FROM r.ended_at - r.started_at)::INTEGER AS elapsed_seconds,
+  EXTRACT(EPOCH FROM COALESCE(i.paused_for, interval '0'))::INTEGER AS paused_seconds,
+  EXTRACT(EPOCH FROM
+    r.ended_at - r.started_at
+      - COALESCE(i.paused_for, interval '0')
+      - COALESCE(i.awaiting_for, interval '0')
+  )::INTEGER AS working_seconds,
+  EXTRACT(EPOCH FROM COALESCE(i.awaiting_for, interval '0'))::INTEGER AS awaiting_confirmation_seconds
+FROM requests r
+LEFT JOIN idle i ON i.request_id = r.id;
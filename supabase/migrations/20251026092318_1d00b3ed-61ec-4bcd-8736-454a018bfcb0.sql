@@ -0,0 +1,317 @@
+-- Completion codes. Each request gets a six-digit code that only its
+-- resident can see, once a provider is assigned. The provider enters it on
+-- site to mark the job done, so jobs cannot be closed remotely. Admins can
+-- skip the code.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('completion_code_max_attempts', '5', 'Wrong completion codes a provider can enter before an admin has to step in');
+
+CREATE TABLE public.request_completion_codes (
+  request_id UUID PRIMARY KEY REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  code TEXT NOT NULL CHECK (code ~ '^[0-9]{6}$'),
+  failed_attempts INT NOT NULL DEFAULT 0,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  verification_method TEXT CHECK (verification_method IN ('code', 'admin_bypass')),
+  verified_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Written by triggers and the completion code functions only. Providers
+-- must never be able to read the code.
+ALTER TABLE public.request_completion_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Residents can view codes for their requests"
+ON public.request_completion_codes
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE service_requests.id = request_completion_codes.request_id
+      AND service_requests.resident_id = auth.uid()
+      AND service_requests.status IN ('assigned', 'in_progress', 'paused')
+  )
+);
+
+-- The code gates finishing a job, so it comes from pgcrypto's
+-- cryptographic generator rather than random()
+CREATE OR REPLACE FUNCTION public.generate_completion_code()
+RETURNS TEXT
+LANGUAGE SQL
+VOLATILE
+SET search_path = public, extensions
+AS $$
+  SELECT lpad(
+    ((('x' || encode(extensions.gen_random_bytes(4), 'hex'))::BIT(32)::BIGINT) % 1000000)::TEXT,
+    6,
+    '0'
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_completion_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.request_completion_codes (request_id, code)
+  VALUES (NEW.id, public.generate_completion_code());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_completion_code
+AFTER INSERT ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.create_completion_code();
+
+INSERT INTO public.request_completion_codes (request_id, code)
+SELECT id, public.generate_completion_code()
+FROM public.service_requests
+WHERE status NOT IN ('completed', 'cancelled');
+
+-- Used by the transition trigger, which runs as the caller and cannot see
+-- the codes table
+CREATE OR REPLACE FUNCTION public.completion_verified(_request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.request_completion_codes
+    WHERE request_id = _request_id AND verified_at IS NOT NULL
+  )
+$$;
+
+-- Admins skip the code through skip_completion_code
+INSERT INTO public.request_status_transitions (from_status, to_status, actor) VALUES
+  ('in_progress', 'pending_confirmation', 'admin');
+
+CREATE OR REPLACE FUNCTION public.enforce_request_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _actor TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    _actor := public.request_status_actor(NEW.resident_id, NEW.provider_id);
+
+    IF _actor IS DISTINCT FROM 'system' AND NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New requests must start as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  _actor := public.request_status_actor(OLD.resident_id, OLD.provider_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.request_status_transitions
+    WHERE from_status = OLD.status
+      AND to_status = NEW.status
+      AND actor = _actor
+  ) THEN
+    RAISE EXCEPTION 'Status change from % to % is not allowed for %',
+      OLD.status, NEW.status, COALESCE(_actor, 'this user')
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.status = 'cancelled' AND _actor = 'resident' AND NEW.cancellation_reason IS NULL THEN
+    RAISE EXCEPTION 'A cancellation reason is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'pending_confirmation' AND NOT public.completion_verified(NEW.id) THEN
+    RAISE EXCEPTION 'Enter the completion code from the resident to finish this job'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A job reopened after a dispute needs the code again
+CREATE OR REPLACE FUNCTION public.update_request_timestamps()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'assigned' AND NEW.assigned_at IS NULL THEN
+    NEW.assigned_at = now();
+  ELSIF NEW.status = 'in_progress' AND NEW.started_at IS NULL THEN
+    NEW.started_at = now();
+  ELSIF NEW.status = 'pending_confirmation' THEN
+    NEW.completion_requested_at = now();
+  ELSIF NEW.status = 'completed' AND NEW.completed_at IS NULL THEN
+    NEW.completed_at = now();
+  END IF;
+
+  IF OLD.status = 'disputed' AND NEW.status = 'in_progress' THEN
+    UPDATE public.request_completion_codes
+    SET failed_attempts = 0,
+        verified_at = NULL,
+        verification_method = NULL,
+        verified_by = NULL
+    WHERE request_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Mark a job done as its provider with the resident's code. Every wrong
+-- code counts against the request; after completion_code_max_attempts of
+-- them the code is locked, admins are alerted and only skip_completion_code
+-- can finish the job, so the code cannot be guessed.
+CREATE OR REPLACE FUNCTION public.submit_completion_code(_request_id UUID, _code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+  _completion public.request_completion_codes%ROWTYPE;
+  _max_attempts INT := COALESCE((public.app_setting('completion_code_max_attempts') #>> '{}')::INT, 5);
+BEGIN
+  SELECT sr.* INTO _request
+  FROM public.service_requests sr
+  JOIN public.provider_profiles pp ON pp.id = sr.provider_id
+  WHERE sr.id = _request_id AND pp.user_id = auth.uid()
+  FOR UPDATE OF sr;
+
+  IF NOT FOUND OR _request.status <> 'in_progress' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This job is not in progress');
+  END IF;
+
+  SELECT * INTO _completion
+  FROM public.request_completion_codes
+  WHERE request_id = _request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This job has no completion code. Ask an administrator to finish it.');
+  END IF;
+
+  IF _completion.failed_attempts >= _max_attempts THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Too many incorrect codes. Ask an administrator to finish this job.',
+      'attempts_remaining', 0
+    );
+  END IF;
+
+  IF _completion.code <> btrim(COALESCE(_code, '')) THEN
+    UPDATE public.request_completion_codes
+    SET failed_attempts = failed_attempts + 1
+    WHERE request_id = _request_id;
+
+    IF _completion.failed_attempts + 1 >= _max_attempts THEN
+      INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+      SELECT user_id, 'Completion Code Locked', 'Too many incorrect completion codes were entered for request ' || _request_id, 'warning', _request_id
+      FROM public.user_roles
+      WHERE role = 'admin';
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Incorrect code',
+      'attempts_remaining', _max_attempts - _completion.failed_attempts - 1
+    );
+  END IF;
+
+  UPDATE public.request_completion_codes
+  SET verified_at = now(),
+      verification_method = 'code',
+      verified_by = auth.uid()
+  WHERE request_id = _request_id;
+
+  PERFORM set_config('app.status_actor', 'provider', true);
+
+  UPDATE public.service_requests SET status = 'pending_confirmation' WHERE id = _request_id;
+
+  PERFORM set_config('app.status_actor', '', true);
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  VALUES (
+    _request.resident_id,
+    'Please Confirm Completion',
+    'Your provider marked the job as done. Confirm it or report a problem.',
+    'info',
+    _request_id
+  );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Mark a job done without the code as an admin, e.g. when the resident
+-- is not on site or the code is locked. The resident still confirms it.
+CREATE OR REPLACE FUNCTION public.skip_completion_code(_request_id UUID, _notes TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only admins can skip the completion code');
+  END IF;
+
+  IF COALESCE(btrim(_notes), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A note is required');
+  END IF;
+
+  SELECT * INTO _request FROM public.service_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR _request.status <> 'in_progress' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'This job is not in progress');
+  END IF;
+
+  INSERT INTO public.request_completion_codes (request_id, code, verified_at, verification_method, verified_by)
+  VALUES (_request_id, public.generate_completion_code(), now(), 'admin_bypass', auth.uid())
+  ON CONFLICT (request_id) DO UPDATE
+  SET verified_at = EXCLUDED.verified_at,
+      verification_method = EXCLUDED.verification_method,
+      verified_by = EXCLUDED.verified_by;
+
+  PERFORM set_config('app.status_actor', 'admin', true);
+  PERFORM set_config('app.status_change_note', btrim(_notes), true);
+
+  UPDATE public.service_requests SET status = 'pending_confirmation' WHERE id = _request_id;
+
+  PERFORM set_config('app.status_actor', '', true);
+  PERFORM set_config('app.status_change_note', '', true);
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  VALUES (
+    _request.resident_id,
+    'Please Confirm Completion',
+    'An administrator marked the job as done. Confirm it or report a problem.',
+    'info',
+    _request_id
+  );
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  SELECT user_id, 'Job Marked Done', 'An administrator marked the job as done: ' || btrim(_notes), 'info', _request_id
+  FROM public.provider_profiles
+  WHERE id = _request.provider_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
@@ -0,0 +1,247 @@
+-- Appointment scheduling. Residents propose one or more time windows when
+-- they create a request; the assigned provider confirms a slot inside one
+-- of them, which is stored on the request.
+CREATE TABLE public.request_time_windows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at),
+  -- Lets a retried submission insert the same windows again harmlessly
+  UNIQUE (request_id, starts_at, ends_at)
+);
+
+ALTER TABLE public.request_time_windows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Residents can view windows for their requests"
+ON public.request_time_windows
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE service_requests.id = request_time_windows.request_id
+      AND service_requests.resident_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Residents can change windows while their request is pending"
+ON public.request_time_windows
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE service_requests.id = request_time_windows.request_id
+      AND service_requests.resident_id = auth.uid()
+      AND service_requests.status = 'pending'
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE service_requests.id = request_time_windows.request_id
+      AND service_requests.resident_id = auth.uid()
+      AND service_requests.status = 'pending'
+  )
+);
+
+CREATE POLICY "Providers can view windows for their jobs"
+ON public.request_time_windows
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.service_requests
+    JOIN public.provider_profiles ON provider_profiles.id = service_requests.provider_id
+    WHERE service_requests.id = request_time_windows.request_id
+      AND provider_profiles.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view all windows"
+ON public.request_time_windows
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- The confirmed appointment
+ALTER TABLE public.service_requests
+  ADD COLUMN scheduled_start TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN scheduled_end TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT service_requests_schedule_check
+    CHECK ((scheduled_start IS NULL) = (scheduled_end IS NULL) AND scheduled_end > scheduled_start);
+
+CREATE INDEX idx_service_requests_provider_schedule
+ON public.service_requests(provider_id, scheduled_start)
+WHERE scheduled_start IS NOT NULL;
+
+-- A provider is booked for a request when every window the resident
+-- proposed overlaps an appointment on one of their open jobs. Requests
+-- without windows can be fitted in anywhere.
+CREATE OR REPLACE FUNCTION public.provider_booked_for_request(_provider_id UUID, _request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+      SELECT 1 FROM public.request_time_windows WHERE request_id = _request_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.request_time_windows w
+      WHERE w.request_id = _request_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.service_requests sr
+          WHERE sr.provider_id = _provider_id
+            AND sr.id <> _request_id
+            AND sr.status IN ('assigned', 'in_progress', 'paused')
+            AND sr.scheduled_start IS NOT NULL
+            AND tstzrange(sr.scheduled_start, sr.scheduled_end) && tstzrange(w.starts_at, w.ends_at)
+        )
+    )
+$$;
+
+-- Return type changes, so the function has to be recreated. booked is
+-- provider_booked_for_request.
+DROP FUNCTION IF EXISTS public.find_provider_candidates(UUID, NUMERIC, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.find_provider_candidates(
+  _request_id UUID,
+  _search_radius_km NUMERIC DEFAULT NULL,
+  _radius_extension_km NUMERIC DEFAULT 0
+)
+RETURNS TABLE (
+  provider_id UUID,
+  user_id UUID,
+  provider_name TEXT,
+  is_available BOOLEAN,
+  on_shift BOOLEAN,
+  base_name TEXT,
+  service_radius_km NUMERIC,
+  distance_km DOUBLE PRECISION,
+  outside_radius_km DOUBLE PRECISION,
+  service_area_distance_km DOUBLE PRECISION,
+  rating NUMERIC,
+  active_jobs INTEGER,
+  max_active_jobs INTEGER,
+  last_assigned_at TIMESTAMP WITH TIME ZONE,
+  previously_offered BOOLEAN,
+  booked BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT public.candidate_search_radius_km(
+      _request_id, _search_radius_km, _radius_extension_km
+    ) AS radius_km
+  )
+  SELECT
+    pp.id,
+    pp.user_id,
+    p.name,
+    COALESCE(pp.is_available, false),
+    public.provider_is_on_shift(pp.id),
+    nearest.name,
+    nearest.radius_km,
+    nearest.distance_km,
+    public.provider_outside_radius_km(pp.id, r.id),
+    areas.distance_km,
+    pp.rating,
+    public.provider_open_jobs(pp.id),
+    pp.max_active_jobs,
+    (SELECT max(sr.assigned_at) FROM public.service_requests sr WHERE sr.provider_id = pp.id),
+    public.provider_previously_offered(pp.id, r.id),
+    public.provider_booked_for_request(pp.id, r.id)
+  FROM public.service_requests r
+  CROSS JOIN bounds b
+  JOIN public.provider_categories pc ON pc.category_id = r.category_id
+  JOIN public.provider_profiles pp ON pp.id = pc.provider_profile_id
+  JOIN public.profiles p ON p.id = pp.user_id
+  LEFT JOIN LATERAL public.provider_nearest_base(pp.id, r.id) nearest ON true
+  CROSS JOIN LATERAL (
+    SELECT public.provider_service_area_distance_km(pp.id, r.id) AS distance_km
+  ) areas
+  WHERE r.id = _request_id
+    AND (
+      public.provider_within_km(pp.id, r.id, b.radius_km)
+      OR areas.distance_km <= COALESCE(_radius_extension_km, 0)
+    )
+  ORDER BY COALESCE(nearest.distance_km, areas.distance_km)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_provider_candidates(UUID, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Confirm (or move) the appointment as the assigned provider. The slot has
+-- to fit inside one of the resident's windows, if they gave any, and must
+-- not clash with the provider's other appointments.
+CREATE OR REPLACE FUNCTION public.schedule_request(
+  _request_id UUID,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _ends_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+BEGIN
+  IF _starts_at IS NULL OR _ends_at IS NULL OR _ends_at <= _starts_at THEN
+    RETURN jsonb_build_object('success', false, 'message', 'The appointment must end after it starts');
+  END IF;
+
+  IF _starts_at < now() THEN
+    RETURN jsonb_build_object('success', false, 'message', 'The appointment must be in the future');
+  END IF;
+
+  SELECT sr.* INTO _request
+  FROM public.service_requests sr
+  JOIN public.provider_profiles pp ON pp.id = sr.provider_id
+  WHERE sr.id = _request_id AND pp.user_id = auth.uid()
+  FOR UPDATE OF sr;
+
+  IF NOT FOUND OR _request.status <> 'assigned' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only assigned jobs that have not started can be scheduled');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.request_time_windows WHERE request_id = _request_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.request_time_windows
+      WHERE request_id = _request_id
+        AND starts_at <= _starts_at
+        AND ends_at >= _ends_at
+    ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'The appointment must fall within one of the resident''s preferred times');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE provider_id = _request.provider_id
+      AND id <> _request_id
+      AND status IN ('assigned', 'in_progress', 'paused')
+      AND scheduled_start IS NOT NULL
+      AND tstzrange(scheduled_start, scheduled_end) && tstzrange(_starts_at, _ends_at)
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'You already have an appointment at that time');
+  END IF;
+
+  UPDATE public.service_requests
+  SET scheduled_start = _starts_at,
+      scheduled_end = _ends_at
+  WHERE id = _request_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+  VALUES (
+    _request.resident_id,
+    CASE WHEN _request.scheduled_start IS NULL THEN 'Appointment Confirmed' ELSE 'Appointment Changed' END,
+    'Your provider has set a time for the visit. Check your request for the details.',
+    'info',
+    _request_id
+  );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
@@ -0,0 +1,172 @@
+-- Recurring maintenance. A series describes a service a resident needs
+-- periodically (e.g. AC servicing every 3 months). materialize_recurring_requests
+-- creates each visit as a normal service request ahead of its due date.
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('recurring_request_lead_days', '7', 'Days before its due date that a recurring visit is created as a request');
+
+CREATE TABLE public.recurring_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resident_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL REFERENCES public.service_categories(id) ON DELETE CASCADE,
+  priority public.request_priority NOT NULL DEFAULT 'normal',
+  description TEXT NOT NULL,
+  location_address TEXT,
+  location_lat NUMERIC NOT NULL,
+  location_lng NUMERIC NOT NULL,
+  -- Recurrence rule: every interval_count weeks or months
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+  interval_count INT NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 24),
+  next_due_on DATE NOT NULL,
+  -- Optional time of day each visit should happen, in the resident's time zone
+  preferred_start_time TIME,
+  preferred_end_time TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((preferred_start_time IS NULL) = (preferred_end_time IS NULL)),
+  CHECK (preferred_end_time > preferred_start_time)
+);
+
+CREATE INDEX idx_recurring_requests_resident ON public.recurring_requests(resident_id);
+CREATE INDEX idx_recurring_requests_due ON public.recurring_requests(next_due_on) WHERE is_active;
+
+ALTER TABLE public.recurring_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Residents can manage their recurring requests"
+ON public.recurring_requests
+FOR ALL
+USING (resident_id = auth.uid())
+WITH CHECK (resident_id = auth.uid());
+
+CREATE POLICY "Admins can view all recurring requests"
+ON public.recurring_requests
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_recurring_requests_updated_at
+BEFORE UPDATE ON public.recurring_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- An unknown time zone would break materializing the series
+CREATE TRIGGER validate_recurring_request_timezone
+BEFORE INSERT OR UPDATE OF timezone ON public.recurring_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_timezone();
+
+ALTER TABLE public.service_requests
+  ADD COLUMN recurring_request_id UUID REFERENCES public.recurring_requests(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_service_requests_recurring ON public.service_requests(recurring_request_id)
+WHERE recurring_request_id IS NOT NULL;
+
+-- Who did the most recent completed visit in the request's series. Matching
+-- offers recurring visits to them first when they are eligible.
+CREATE OR REPLACE FUNCTION public.previous_series_provider(_request_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT previous.provider_id
+  FROM public.service_requests r
+  JOIN public.service_requests previous
+    ON previous.recurring_request_id = r.recurring_request_id
+    AND previous.id <> r.id
+    AND previous.status = 'completed'
+    AND previous.provider_id IS NOT NULL
+  WHERE r.id = _request_id
+  ORDER BY previous.completed_at DESC
+  LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.previous_series_provider(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Create the request for every active series due within the lead time and
+-- move the series on to its next due date. A series waits while its last
+-- visit is still open, and due dates missed in the meantime are skipped.
+CREATE OR REPLACE FUNCTION public.materialize_recurring_requests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lead_days INT := COALESCE((public.app_setting('recurring_request_lead_days') #>> '{}')::INT, 7);
+  _series public.recurring_requests%ROWTYPE;
+  _step INTERVAL;
+  _next_due DATE;
+  _request_id UUID;
+  _created INT := 0;
+BEGIN
+  FOR _series IN
+    SELECT * FROM public.recurring_requests rr
+    WHERE rr.is_active
+      AND rr.next_due_on <= current_date + _lead_days
+      AND NOT EXISTS (
+        SELECT 1 FROM public.service_requests sr
+        WHERE sr.recurring_request_id = rr.id
+          AND sr.status NOT IN ('completed', 'cancelled')
+      )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    INSERT INTO public.service_requests (
+      resident_id, category_id, priority, description,
+      location_address, location_lat, location_lng,
+      photos, status, recurring_request_id
+    )
+    VALUES (
+      _series.resident_id, _series.category_id, _series.priority, _series.description,
+      _series.location_address, _series.location_lat, _series.location_lng,
+      '{}', 'pending', _series.id
+    )
+    RETURNING id INTO _request_id;
+
+    IF _series.preferred_start_time IS NOT NULL THEN
+      INSERT INTO public.request_time_windows (request_id, starts_at, ends_at)
+      VALUES (
+        _request_id,
+        (_series.next_due_on + _series.preferred_start_time) AT TIME ZONE _series.timezone,
+        (_series.next_due_on + _series.preferred_end_time) AT TIME ZONE _series.timezone
+      );
+    END IF;
+
+    _step := CASE _series.frequency
+      WHEN 'weekly' THEN make_interval(weeks => _series.interval_count)
+      ELSE make_interval(months => _series.interval_count)
+    END;
+
+    _next_due := (_series.next_due_on + _step)::DATE;
+    WHILE _next_due <= current_date LOOP
+      _next_due := (_next_due + _step)::DATE;
+    END LOOP;
+
+    UPDATE public.recurring_requests SET next_due_on = _next_due WHERE id = _series.id;
+
+    INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+    VALUES (
+      _series.resident_id,
+      'Recurring Visit Requested',
+      'Your recurring service due on ' || to_char(_series.next_due_on, 'Mon DD, YYYY') || ' has been requested',
+      'info',
+      _request_id
+    );
+
+    PERFORM public.dispatch_request_matching(_request_id);
+
+    _created := _created + 1;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.materialize_recurring_requests() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'materialize-recurring-requests',
+  '23 * * * *',
+  $$SELECT public.materialize_recurring_requests()$$
+);
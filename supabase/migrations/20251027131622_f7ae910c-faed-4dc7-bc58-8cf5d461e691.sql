@@ -0,0 +1,100 @@
+-- Residents edit their pending requests. Each edit is recorded in the status
+-- history (with the status unchanged), naming the fields that changed.
+CREATE OR REPLACE FUNCTION public.log_request_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _edited TEXT[] := '{}';
+BEGIN
+  IF (TG_OP = 'INSERT')
+    OR (OLD.status IS DISTINCT FROM NEW.status)
+    OR (OLD.provider_id IS DISTINCT FROM NEW.provider_id AND NEW.provider_id IS NOT NULL AND OLD.provider_id IS NOT NULL) THEN
+    INSERT INTO public.request_status_history (request_id, status, changed_by, notes)
+    VALUES (
+      NEW.id,
+      NEW.status,
+      COALESCE(auth.uid(), NEW.resident_id),
+      NULLIF(current_setting('app.status_change_note', true), '')
+    );
+    RETURN NEW;
+  END IF;
+
+  IF OLD.category_id IS DISTINCT FROM NEW.category_id THEN
+    _edited := _edited || 'category'::TEXT;
+  END IF;
+  IF OLD.description IS DISTINCT FROM NEW.description THEN
+    _edited := _edited || 'description'::TEXT;
+  END IF;
+  IF OLD.priority IS DISTINCT FROM NEW.priority THEN
+    _edited := _edited || 'urgency'::TEXT;
+  END IF;
+  IF (OLD.location_lat, OLD.location_lng, OLD.location_address)
+    IS DISTINCT FROM (NEW.location_lat, NEW.location_lng, NEW.location_address) THEN
+    _edited := _edited || 'location'::TEXT;
+  END IF;
+  IF OLD.photos IS DISTINCT FROM NEW.photos THEN
+    _edited := _edited || 'photos'::TEXT;
+  END IF;
+
+  IF array_length(_edited, 1) > 0 THEN
+    INSERT INTO public.request_status_history (request_id, status, changed_by, notes)
+    VALUES (
+      NEW.id,
+      NEW.status,
+      COALESCE(auth.uid(), NEW.resident_id),
+      'Request edited: ' || array_to_string(_edited, ', ')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Set when a pending request's category or location is edited. Offers made
+-- before then were for different details, so they no longer keep a provider
+-- out of matching, and the fallback queue built from them is dropped.
+ALTER TABLE public.service_requests
+  ADD COLUMN matching_reset_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.reset_matching_on_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'pending'
+    AND (OLD.category_id, OLD.location_lat, OLD.location_lng)
+      IS DISTINCT FROM (NEW.category_id, NEW.location_lat, NEW.location_lng) THEN
+    NEW.matching_reset_at := now();
+    DELETE FROM public.assignment_queues WHERE request_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_matching_on_edit
+BEFORE UPDATE OF category_id, location_lat, location_lng ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_matching_on_edit();
+
+CREATE OR REPLACE FUNCTION public.provider_previously_offered(_provider_id UUID, _request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.request_offers o
+    JOIN public.service_requests sr ON sr.id = o.request_id
+    WHERE o.request_id = _request_id
+      AND o.provider_id = _provider_id
+      AND o.created_at >= COALESCE(sr.matching_reset_at, '-infinity')
+  )
+$$;
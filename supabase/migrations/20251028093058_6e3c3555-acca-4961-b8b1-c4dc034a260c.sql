@@ -0,0 +1,30 @@
+-- An appointment belongs to the provider who confirmed it. Releases,
+-- unassignments, reassignments and expired offers all change or clear
+-- provider_id, so the slot is dropped with it and the next provider
+-- confirms their own.
+CREATE OR REPLACE FUNCTION public.clear_schedule_on_provider_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.provider_id IS DISTINCT FROM NEW.provider_id THEN
+    NEW.scheduled_start := NULL;
+    NEW.scheduled_end := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_schedule_on_provider_change
+BEFORE UPDATE OF provider_id ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_schedule_on_provider_change();
+
+-- Appointments left behind by earlier provider changes
+UPDATE public.service_requests
+SET scheduled_start = NULL,
+    scheduled_end = NULL
+WHERE scheduled_start IS NOT NULL
+  AND (provider_id IS NULL OR status IN ('pending', 'offered'));
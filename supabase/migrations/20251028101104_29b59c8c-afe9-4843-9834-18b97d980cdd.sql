@@ -0,0 +1,112 @@
+-- Only cancel from statuses the resident is actually allowed to leave
+CREATE OR REPLACE FUNCTION public.cancel_request(
+  _request_id UUID,
+  _reason TEXT,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.service_requests%ROWTYPE;
+  _policy JSONB := COALESCE(public.app_setting('cancellation_policy'), '{}'::jsonb);
+  _free_minutes NUMERIC := COALESCE((_policy->>'free_cancellation_minutes')::NUMERIC, 30);
+  _late BOOLEAN := false;
+  _provider_user_id UUID;
+BEGIN
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A cancellation reason is required');
+  END IF;
+
+  IF _reason = 'other' AND COALESCE(btrim(_notes), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Please describe why you are cancelling');
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.service_requests
+  WHERE id = _request_id AND resident_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Request not found');
+  END IF;
+
+  IF NOT COALESCE(_policy->'cancellable_statuses', '["pending"]'::jsonb) ? _request.status::TEXT THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Requests that are ' || replace(_request.status::TEXT, '_', ' ') || ' can no longer be cancelled'
+    );
+  END IF;
+
+  -- cancellable_statuses is an admin setting, so it can name statuses the
+  -- resident has no transition out of. Refuse those here instead of letting
+  -- the transition trigger raise.
+  IF NOT EXISTS (
+    SELECT 1 FROM public.request_status_transitions
+    WHERE from_status = _request.status
+      AND to_status = 'cancelled'
+      AND actor = 'resident'
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'message', 'Requests that are ' || replace(_request.status::TEXT, '_', ' ') || ' can no longer be cancelled'
+    );
+  END IF;
+
+  IF _request.status = 'assigned'
+    AND _request.assigned_at < now() - make_interval(mins => _free_minutes::INT) THEN
+    IF NOT COALESCE((_policy->>'allow_late_cancellation')::BOOLEAN, true) THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'message', 'The cancellation window has passed. Please contact support to cancel this job.'
+      );
+    END IF;
+    _late := true;
+  END IF;
+
+  SELECT user_id INTO _provider_user_id FROM public.provider_profiles WHERE id = _request.provider_id;
+
+  UPDATE public.request_offers
+  SET status = 'released', responded_at = now()
+  WHERE request_id = _request_id
+    AND status IN ('pending', 'accepted');
+
+  PERFORM set_config('app.status_actor', 'resident', true);
+  PERFORM set_config(
+    'app.status_change_note',
+    replace(_reason, '_', ' ') || COALESCE(': ' || NULLIF(btrim(_notes), ''), ''),
+    true
+  );
+
+  UPDATE public.service_requests
+  SET status = 'cancelled',
+      cancellation_reason = _reason,
+      cancellation_notes = NULLIF(btrim(_notes), ''),
+      cancelled_at = now(),
+      late_cancellation = _late
+  WHERE id = _request_id;
+
+  PERFORM set_config('app.status_actor', '', true);
+  PERFORM set_config('app.status_change_note', '', true);
+
+  IF _provider_user_id IS NOT NULL THEN
+    IF COALESCE((_policy->>'notify_provider')::BOOLEAN, true) THEN
+      INSERT INTO public.notifications (user_id, title, message, type, related_request_id)
+      VALUES (
+        _provider_user_id,
+        'Job Cancelled',
+        'The resident cancelled this job (' || replace(_reason, '_', ' ') || ')',
+        'warning',
+        _request_id
+      );
+    END IF;
+
+    -- The freed slot can take another pending request right away
+    PERFORM public.dispatch_provider_matching(_provider_user_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'late', _late);
+END;
+$$;
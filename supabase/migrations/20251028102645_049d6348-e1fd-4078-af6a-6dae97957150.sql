@@ -0,0 +1,5 @@
+-- Radius extension the sweeper searched with. The sweeper only records a run
+-- when its outcome or radius differs from the request's last attempt, so a
+-- request stuck in pending no longer adds a row every few minutes.
+ALTER TABLE public.assignment_attempts
+  ADD COLUMN radius_extension_km NUMERIC NOT NULL DEFAULT 0;